@@ -0,0 +1,505 @@
+import {
+  ClampToEdgeWrapping,
+  Color,
+  DataTexture,
+  LinearFilter,
+  LinearMipmapLinearFilter,
+  NoColorSpace,
+  RepeatWrapping,
+  RGBAFormat,
+  SRGBColorSpace,
+  Texture,
+  TextureLoader,
+  UnsignedByteType,
+} from "three";
+import { MeshStandardNodeMaterial, Node, TSL } from "three/webgpu";
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import { applyPaintedWeights, LayerPaintMap } from "./layerPaint";
+import { createSeededRandom, createSimplex2D } from "./noise";
+
+// Ranges are 0..1: height between heightLow and heightHigh, slope as
+// 1 - normal.y (like slopeThreshold), moisture and temperature from the
+// climate noise below.
+export type BiomeLayer = {
+  name: string;
+  color: string; // procedural texture when there is no albedo image
+  albedo?: string; // image URL
+  normal?: string;
+  roughnessMap?: string;
+  roughness: number;
+  tiling: number; // world units per texture repeat
+  height: [number, number];
+  slope: [number, number];
+  moisture: [number, number];
+  temperature: [number, number];
+};
+
+export type BiomeParams = {
+  heightLow: number;
+  heightHigh: number;
+  blend: number; // width of the fade at each range edge
+  moisture: number; // offset added to the climate, -0.5..0.5
+  temperature: number;
+  seed: number;
+};
+
+export type BiomeTextureKind = "albedo" | "normal" | "roughness";
+
+// One RGBA splat texel holds the weights of four layers.
+export const MAX_BIOME_LAYERS = 4;
+
+export const DEFAULT_BIOME_LAYERS: BiomeLayer[] = [
+  {
+    name: "Sand",
+    color: "#c2b280",
+    roughness: 0.95,
+    tiling: 6,
+    height: [0, 0.12],
+    slope: [0, 0.35],
+    moisture: [0, 1],
+    temperature: [0.3, 1],
+  },
+  {
+    name: "Grass",
+    color: "#6f8b4e",
+    albedo: "/textures/grass_albedo.jpg",
+    roughness: 0.9,
+    tiling: 4,
+    height: [0.08, 0.62],
+    slope: [0, 0.24],
+    moisture: [0.2, 1],
+    temperature: [0.2, 1],
+  },
+  {
+    name: "Rock",
+    color: "#7d7d7d",
+    roughness: 0.8,
+    tiling: 12,
+    height: [0, 1],
+    slope: [0.2, 1],
+    moisture: [0, 1],
+    temperature: [0, 1],
+  },
+  {
+    name: "Snow",
+    color: "#ececf0",
+    roughness: 0.55,
+    tiling: 8,
+    height: [0.58, 1],
+    slope: [0, 0.45],
+    moisture: [0, 1],
+    temperature: [0, 0.45],
+  },
+];
+
+const {
+  float,
+  mix,
+  normalLocal,
+  normalMap,
+  positionLocal,
+  smoothstep,
+  texture,
+  uniform,
+  uv,
+  vec2,
+  vec3,
+} = TSL;
+
+type BiomeSlot = {
+  albedo: ReturnType<typeof texture>;
+  normal: ReturnType<typeof texture>;
+  roughnessMap: ReturnType<typeof texture>;
+  roughness: ReturnType<typeof uniform>;
+  scale: ReturnType<typeof uniform>; // 1 / tiling
+  // Textures created here (fallbacks and loaded URLs), disposed with us.
+  owned: Texture[];
+  urls: Partial<Record<BiomeTextureKind, string>>;
+};
+
+// Splat map computed from the heightfield plus a node material that blends
+// tiled layers by it. Flat ground samples the layers from above, steep ground
+// switches to triplanar sampling so cliffs don't stretch.
+export class TerrainBiomes {
+  readonly material: MeshStandardNodeMaterial;
+
+  private readonly heightfield: Heightfield;
+  private readonly heightScale: number;
+  private readonly paint: LayerPaintMap | null;
+  private readonly splatData: Uint8Array;
+  private readonly splat: DataTexture;
+  private readonly slots: BiomeSlot[] = [];
+  private readonly loader = new TextureLoader();
+  private layers: BiomeLayer[];
+  private params: BiomeParams;
+  private moistureNoise: (x: number, y: number) => number;
+  private temperatureNoise: (x: number, y: number) => number;
+
+  constructor(
+    heightfield: Heightfield,
+    heightScale: number,
+    layers: BiomeLayer[],
+    params: BiomeParams,
+    paint: LayerPaintMap | null = null,
+  ) {
+    this.heightfield = heightfield;
+    this.heightScale = heightScale;
+    this.paint = paint;
+    this.layers = layers.slice(0, MAX_BIOME_LAYERS);
+    this.params = params;
+    this.moistureNoise = createSimplex2D(params.seed + 101);
+    this.temperatureNoise = createSimplex2D(params.seed + 202);
+
+    const { width, height } = heightfield;
+    this.splatData = new Uint8Array(width * height * 4);
+    this.splat = new DataTexture(
+      this.splatData,
+      width,
+      height,
+      RGBAFormat,
+      UnsignedByteType,
+    );
+    this.splat.wrapS = ClampToEdgeWrapping;
+    this.splat.wrapT = ClampToEdgeWrapping;
+    this.splat.magFilter = LinearFilter;
+    this.splat.minFilter = LinearFilter;
+    this.splat.colorSpace = NoColorSpace;
+
+    for (let i = 0; i < MAX_BIOME_LAYERS; i++) {
+      this.slots.push(this.createSlot(i));
+    }
+    this.material = this.createMaterial();
+    this.applyLayers();
+    this.update();
+  }
+
+  setLayers(layers: BiomeLayer[], params: BiomeParams): void {
+    if (params.seed !== this.params.seed) {
+      this.moistureNoise = createSimplex2D(params.seed + 101);
+      this.temperatureNoise = createSimplex2D(params.seed + 202);
+    }
+    this.layers = layers.slice(0, MAX_BIOME_LAYERS);
+    this.params = params;
+    this.applyLayers();
+    this.update();
+  }
+
+  // Replaces a layer texture until the layer's URL changes.
+  setLayerTexture(index: number, kind: BiomeTextureKind, map: Texture): void {
+    const slot = this.slots[index];
+    if (!slot) return;
+    configureLayerTexture(map, kind);
+    slot.owned.push(map);
+    getSlotNode(slot, kind).value = map;
+  }
+
+  // Recomputes the splat weights, for the texels around a sculpted or painted
+  // region or everywhere.
+  update(region?: HeightfieldRegion): void {
+    const hf = this.heightfield;
+    const minX = region ? Math.max(0, region.minX - 1) : 0;
+    const minY = region ? Math.max(0, region.minY - 1) : 0;
+    const maxX = region
+      ? Math.min(hf.width - 1, region.maxX + 1)
+      : hf.width - 1;
+    const maxY = region
+      ? Math.min(hf.height - 1, region.maxY + 1)
+      : hf.height - 1;
+    const { heightLow, heightHigh, moisture, temperature } = this.params;
+    const heightRange = Math.max(1e-5, heightHigh - heightLow);
+    const weights = new Float32Array(MAX_BIOME_LAYERS);
+    const climate = { height: 0, slope: 0, moisture: 0, temperature: 0 };
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const h = hf.getHeight(x, y) * this.heightScale;
+        climate.height = clamp01((h - heightLow) / heightRange);
+        climate.slope = getSlope(hf, x, y, this.heightScale);
+        climate.moisture = clamp01(
+          0.5 + 0.45 * this.moistureNoise(x * 0.015, y * 0.015) + moisture,
+        );
+        climate.temperature = clamp01(
+          1 -
+            climate.height * 0.8 +
+            0.15 * this.temperatureNoise(x * 0.01, y * 0.01) +
+            temperature,
+        );
+        this.computeWeights(climate, weights);
+        const texel = y * hf.width + x;
+        if (this.paint) applyPaintedWeights(this.paint, texel, weights);
+        for (let i = 0; i < MAX_BIOME_LAYERS; i++) {
+          this.splatData[texel * 4 + i] = Math.round(weights[i] * 255);
+        }
+      }
+    }
+    this.splat.needsUpdate = true;
+  }
+
+  dispose(): void {
+    this.material.dispose();
+    this.splat.dispose();
+    for (const slot of this.slots) {
+      for (const map of slot.owned) map.dispose();
+    }
+  }
+
+  private computeWeights(climate: Climate, out: Float32Array) {
+    const blend = Math.max(1e-3, this.params.blend);
+    let sum = 0;
+    let closest = 0;
+    let closestDistance = Infinity;
+    out.fill(0);
+    this.layers.forEach((layer, i) => {
+      const weight =
+        rangeWeight(climate.height, layer.height, blend) *
+        rangeWeight(climate.slope, layer.slope, blend) *
+        rangeWeight(climate.moisture, layer.moisture, blend) *
+        rangeWeight(climate.temperature, layer.temperature, blend);
+      out[i] = weight;
+      sum += weight;
+      const distance =
+        rangeDistance(climate.height, layer.height) +
+        rangeDistance(climate.slope, layer.slope) +
+        rangeDistance(climate.moisture, layer.moisture) +
+        rangeDistance(climate.temperature, layer.temperature);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = i;
+      }
+    });
+    // No layer covers this point: fall back to the closest one.
+    if (sum < 1e-4) {
+      out.fill(0);
+      out[closest] = 1;
+      return;
+    }
+    for (let i = 0; i < out.length; i++) out[i] /= sum;
+  }
+
+  private applyLayers() {
+    this.slots.forEach((slot, i) => {
+      const layer = this.layers[i];
+      if (!layer) return;
+      slot.scale.value = 1 / Math.max(0.1, layer.tiling);
+      slot.roughness.value = layer.roughness;
+      this.loadSlotTexture(slot, "albedo", layer.albedo, () =>
+        createLayerTexture(layer.color, i),
+      );
+      this.loadSlotTexture(slot, "normal", layer.normal, createFlatTexture);
+      this.loadSlotTexture(
+        slot,
+        "roughness",
+        layer.roughnessMap,
+        createFlatTexture,
+      );
+    });
+  }
+
+  private loadSlotTexture(
+    slot: BiomeSlot,
+    kind: BiomeTextureKind,
+    url: string | undefined,
+    createFallback: () => Texture,
+  ) {
+    // "" marks the fallback, so it is only created once per change.
+    const key = url ?? "";
+    if (slot.urls[kind] === key) return;
+    slot.urls[kind] = key;
+    const node = getSlotNode(slot, kind);
+    const fallback = createFallback();
+    slot.owned.push(fallback);
+    node.value = fallback;
+    if (!url) return;
+    this.loader.load(url, (map) => {
+      // A newer URL may have replaced this one while it loaded.
+      if (slot.urls[kind] !== key) {
+        map.dispose();
+        return;
+      }
+      configureLayerTexture(map, kind);
+      slot.owned.push(map);
+      node.value = map;
+    });
+  }
+
+  private createSlot(index: number): BiomeSlot {
+    const placeholder = createFlatTexture();
+    return {
+      albedo: texture(placeholder),
+      normal: texture(placeholder),
+      roughnessMap: texture(placeholder),
+      roughness: uniform(1),
+      scale: uniform(1 / (index + 4)),
+      owned: [placeholder],
+      urls: {},
+    };
+  }
+
+  private createMaterial(): MeshStandardNodeMaterial {
+    const { width, height } = this.heightfield;
+    // Terrain uv has v = 1 on heightfield row 0; the splat stores row 0 first.
+    // The extra scale and offset land on texel centres.
+    const splatUv = vec2(uv().x, uv().y.oneMinus())
+      .mul(vec2((width - 1) / width, (height - 1) / height))
+      .add(vec2(0.5 / width, 0.5 / height));
+    const splat = texture(this.splat, splatUv);
+    const weights = [splat.x, splat.y, splat.z, splat.w];
+    const steep = smoothstep(0.3, 0.6, normalLocal.y.oneMinus());
+
+    let color: Node = vec3(0, 0, 0);
+    let roughness: Node = float(0);
+    let normal: Node = vec3(0, 0, 0);
+    this.slots.forEach((slot, i) => {
+      const planarUv = positionLocal.xz.mul(slot.scale);
+      const planar = slot.albedo.sample(planarUv);
+      const triplanar = sampleTriplanar(slot.albedo, slot.scale);
+      const albedo = mix(planar, triplanar, steep);
+      color = color.add(albedo.rgb.mul(weights[i]));
+      const layerRoughness = slot.roughnessMap
+        .sample(planarUv)
+        .r.mul(slot.roughness);
+      roughness = roughness.add(layerRoughness.mul(weights[i]));
+      normal = normal.add(slot.normal.sample(planarUv).rgb.mul(weights[i]));
+    });
+
+    const material = new MeshStandardNodeMaterial({
+      roughness: 0.9,
+      metalness: 0.05,
+    });
+    material.colorNode = color;
+    material.roughnessNode = roughness;
+    // Planar normal maps would smear on cliffs: fade them out there.
+    material.normalNode = normalMap(normal, steep.oneMinus());
+    return material;
+  }
+}
+
+type Climate = {
+  height: number;
+  slope: number;
+  moisture: number;
+  temperature: number;
+};
+
+function getSlotNode(slot: BiomeSlot, kind: BiomeTextureKind) {
+  if (kind === "albedo") return slot.albedo;
+  if (kind === "normal") return slot.normal;
+  return slot.roughnessMap;
+}
+
+// Three projections of the same texture, weighted by the normal.
+function sampleTriplanar(
+  map: ReturnType<typeof texture>,
+  scale: ReturnType<typeof uniform>,
+) {
+  const blend = normalLocal.abs().normalize();
+  const weights = blend.div(blend.x.add(blend.y).add(blend.z));
+  const position = positionLocal.mul(scale);
+  return map
+    .sample(position.zy)
+    .mul(weights.x)
+    .add(map.sample(position.xz).mul(weights.y))
+    .add(map.sample(position.xy).mul(weights.z));
+}
+
+// Full weight inside [min, max], fading over `blend` at the edges; edges at 0
+// or 1 stay open so the extremes are covered.
+function rangeWeight(value: number, range: [number, number], blend: number) {
+  const [min, max] = range;
+  const lower =
+    min <= 0 ? 1 : smoothstepScalar(min - blend, min + blend, value);
+  const upper =
+    max >= 1 ? 1 : 1 - smoothstepScalar(max - blend, max + blend, value);
+  return lower * upper;
+}
+
+function rangeDistance(value: number, range: [number, number]) {
+  return Math.max(0, range[0] - value, value - range[1]);
+}
+
+function getSlope(hf: Heightfield, x: number, y: number, heightScale: number) {
+  const xl = Math.max(0, x - 1);
+  const xr = Math.min(hf.width - 1, x + 1);
+  const yu = Math.max(0, y - 1);
+  const yd = Math.min(hf.height - 1, y + 1);
+  const dx =
+    ((hf.getHeight(xr, y) - hf.getHeight(xl, y)) / Math.max(1, xr - xl)) *
+    heightScale;
+  const dz =
+    ((hf.getHeight(x, yd) - hf.getHeight(x, yu)) / Math.max(1, yd - yu)) *
+    heightScale;
+  return 1 - 1 / Math.sqrt(dx * dx + dz * dz + 1);
+}
+
+function configureLayerTexture(map: Texture, kind: BiomeTextureKind) {
+  map.wrapS = RepeatWrapping;
+  map.wrapT = RepeatWrapping;
+  map.colorSpace = kind === "albedo" ? SRGBColorSpace : NoColorSpace;
+  map.needsUpdate = true;
+}
+
+// Tileable value noise around the layer colour, so untextured layers still
+// show some grain.
+function createLayerTexture(color: string, seed: number): Texture {
+  const size = 128;
+  const cells = 8;
+  // Bytes in sRGB, like an image file would have them.
+  const base = new Color(color).getRGB({ r: 0, g: 0, b: 0 }, SRGBColorSpace);
+  const lattice = new Float32Array(cells * cells);
+  const random = createSeededRandom(seed * 7919 + 17);
+  for (let i = 0; i < lattice.length; i++) lattice[i] = random();
+
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const fx = (x / size) * cells;
+      const fy = (y / size) * cells;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const tx = fx - x0;
+      const ty = fy - y0;
+      const at = (i: number, j: number) =>
+        lattice[((j + cells) % cells) * cells + ((i + cells) % cells)];
+      const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+      const bottom =
+        at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+      const value = top + (bottom - top) * ty;
+      const shade = 0.85 + value * 0.2 + (random() - 0.5) * 0.08;
+      const index = (y * size + x) * 4;
+      data[index] = Math.min(255, base.r * shade * 255);
+      data[index + 1] = Math.min(255, base.g * shade * 255);
+      data[index + 2] = Math.min(255, base.b * shade * 255);
+      data[index + 3] = 255;
+    }
+  }
+  const map = new DataTexture(data, size, size, RGBAFormat, UnsignedByteType);
+  map.magFilter = LinearFilter;
+  map.minFilter = LinearMipmapLinearFilter;
+  map.generateMipmaps = true;
+  configureLayerTexture(map, "albedo");
+  return map;
+}
+
+// 1x1 (0.5, 0.5, 1): a flat normal map and full roughness once scaled.
+function createFlatTexture(): Texture {
+  const map = new DataTexture(
+    new Uint8Array([128, 128, 255, 255]),
+    1,
+    1,
+    RGBAFormat,
+    UnsignedByteType,
+  );
+  map.wrapS = RepeatWrapping;
+  map.wrapT = RepeatWrapping;
+  map.needsUpdate = true;
+  return map;
+}
+
+function smoothstepScalar(edge0: number, edge1: number, x: number) {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,412 @@
+import { Camera, Group, Material, Mesh, PlaneGeometry, Vector3 } from "three";
+import { Heightfield } from "./heightfield";
+import {
+  createNoiseGenerator,
+  HeightGenerator,
+  NoiseGeneratorConfig,
+} from "./noise";
+import { applyBrush, SculptBrushConfig } from "./sculpt";
+import {
+  createGrassDensityMap,
+  createGrassInstancedMeshes,
+  GrassDensityMap,
+  GrassInstanceResult,
+  updateGrassLod,
+} from "./grass";
+import { GRASS_SPECIES } from "./grassSpecies";
+import {
+  createTerrain,
+  updateTerrainGeometryFromHeightfield,
+  updateTerrainNormals,
+  updateTerrainVertexColors,
+} from "./terrain";
+
+export type ChunkManagerOptions = {
+  heightScale: number;
+  chunkSize?: number; // quads per side, default 64
+  viewDistance?: number; // chunks kept around the focus, default 3
+  grassDistance?: number; // chunks with grass around the focus, default 1
+  loadsPerUpdate?: number; // chunks generated per frame, default 2
+};
+
+export type ChunkShading = {
+  heightLow: number;
+  heightHigh: number;
+  slopeThreshold: number;
+  grassInstancesPerChunk: number;
+};
+
+type Chunk = {
+  cx: number;
+  cz: number;
+  // (chunkSize + 1)^2 vertices: edge rows and columns are duplicated in the
+  // neighbouring chunks and kept in sync by setHeight.
+  heightfield: Heightfield;
+  mesh: Mesh<PlaneGeometry> | null;
+  grass: GrassInstanceResult[] | null;
+  grassDensity: GrassDensityMap | null;
+  // Sculpted chunks stay in memory when unloaded so edits are not lost.
+  modified: boolean;
+  meshDirty: boolean;
+  grassDirty: boolean;
+};
+
+// Streams a world of square terrain chunks around a focus point. Chunk (cx, cz)
+// covers world x in [cx * size, (cx + 1) * size] and likewise for z; global
+// vertex (gx, gz) sits at world (gx, gz).
+export class ChunkManager {
+  readonly group = new Group();
+  readonly chunkSize: number;
+
+  private readonly chunks = new Map<string, Chunk>();
+  private readonly heightScale: number;
+  private readonly viewDistance: number;
+  private readonly grassDistance: number;
+  private readonly loadsPerUpdate: number;
+  private generator: HeightGenerator;
+  private shading: ChunkShading;
+
+  constructor(
+    generator: NoiseGeneratorConfig,
+    shading: ChunkShading,
+    options: ChunkManagerOptions,
+  ) {
+    this.generator = createNoiseGenerator(generator);
+    this.shading = shading;
+    this.heightScale = options.heightScale;
+    this.chunkSize = options.chunkSize ?? 64;
+    this.viewDistance = options.viewDistance ?? 3;
+    this.grassDistance = options.grassDistance ?? 1;
+    this.loadsPerUpdate = options.loadsPerUpdate ?? 2;
+  }
+
+  // Drops every chunk, sculpted ones included.
+  setGenerator(generator: NoiseGeneratorConfig): void {
+    this.generator = createNoiseGenerator(generator);
+    for (const chunk of this.chunks.values()) {
+      this.unloadChunk(chunk);
+    }
+    this.chunks.clear();
+  }
+
+  setShading(shading: ChunkShading): void {
+    const grassChanged =
+      shading.heightLow !== this.shading.heightLow ||
+      shading.heightHigh !== this.shading.heightHigh ||
+      shading.slopeThreshold !== this.shading.slopeThreshold ||
+      shading.grassInstancesPerChunk !== this.shading.grassInstancesPerChunk;
+    this.shading = shading;
+    for (const chunk of this.chunks.values()) {
+      chunk.meshDirty = true;
+      if (grassChanged) chunk.grassDirty = true;
+    }
+    if (grassChanged) this.refreshGrass();
+  }
+
+  getMeshes(): Mesh[] {
+    const meshes: Mesh[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (chunk.mesh) meshes.push(chunk.mesh);
+    }
+    return meshes;
+  }
+
+  // Loads chunks around the focus, unloads far ones, rebuilds dirty meshes
+  // and updates the grass LOD of every chunk with grass.
+  update(focus: Vector3, camera: Camera): void {
+    const size = this.chunkSize;
+    const focusX = Math.floor(focus.x / size);
+    const focusZ = Math.floor(focus.z / size);
+
+    const missing: { cx: number; cz: number; distance: number }[] = [];
+    for (let dz = -this.viewDistance; dz <= this.viewDistance; dz++) {
+      for (let dx = -this.viewDistance; dx <= this.viewDistance; dx++) {
+        const chunk = this.chunks.get(chunkKey(focusX + dx, focusZ + dz));
+        if (chunk?.mesh) continue;
+        missing.push({
+          cx: focusX + dx,
+          cz: focusZ + dz,
+          distance: dx * dx + dz * dz,
+        });
+      }
+    }
+    missing.sort((a, b) => a.distance - b.distance);
+    for (const entry of missing.slice(0, this.loadsPerUpdate)) {
+      this.loadChunk(this.getOrCreateChunk(entry.cx, entry.cz));
+    }
+
+    let grassBuilt = false;
+    for (const [key, chunk] of this.chunks) {
+      const distance = Math.max(
+        Math.abs(chunk.cx - focusX),
+        Math.abs(chunk.cz - focusZ),
+      );
+      // One ring of hysteresis so chunks don't flicker on the border.
+      if (distance > this.viewDistance + 1) {
+        this.unloadChunk(chunk);
+        if (!chunk.modified) this.chunks.delete(key);
+        continue;
+      }
+      if (!chunk.mesh) continue;
+      if (chunk.meshDirty) this.rebuildMesh(chunk);
+
+      if (distance > this.grassDistance + 1) {
+        this.disposeGrass(chunk);
+      } else if (
+        distance <= this.grassDistance &&
+        !chunk.grass &&
+        !grassBuilt
+      ) {
+        // Grass is the expensive part: at most one chunk per frame.
+        this.buildGrass(chunk);
+        grassBuilt = true;
+      }
+      for (const { lod } of chunk.grass ?? []) {
+        if (lod.patches.length > 0) updateGrassLod(lod, camera);
+      }
+    }
+  }
+
+  // Height at a global vertex; unloaded chunks fall back to the generator,
+  // which is what they will contain once loaded.
+  getHeight(gx: number, gz: number): number {
+    const size = this.chunkSize;
+    const cx = Math.floor(gx / size);
+    const cz = Math.floor(gz / size);
+    const chunk = this.chunks.get(chunkKey(cx, cz));
+    if (!chunk) return this.generator(gx, gz);
+    return chunk.heightfield.getHeight(gx - cx * size, gz - cz * size);
+  }
+
+  // Bilinear height at world x/z.
+  sampleHeight(x: number, z: number): number {
+    const x0 = Math.floor(x);
+    const z0 = Math.floor(z);
+    const tx = x - x0;
+    const tz = z - z0;
+    const h00 = this.getHeight(x0, z0);
+    const h10 = this.getHeight(x0 + 1, z0);
+    const h01 = this.getHeight(x0, z0 + 1);
+    const h11 = this.getHeight(x0 + 1, z0 + 1);
+    const hx0 = h00 * (1 - tx) + h10 * tx;
+    const hx1 = h01 * (1 - tx) + h11 * tx;
+    return hx0 * (1 - tz) + hx1 * tz;
+  }
+
+  // Writes the vertex into every chunk that shares it.
+  setHeight(gx: number, gz: number, value: number): void {
+    const size = this.chunkSize;
+    const cx = Math.floor(gx / size);
+    const cz = Math.floor(gz / size);
+    const xs = gx - cx * size === 0 ? [cx, cx - 1] : [cx];
+    const zs = gz - cz * size === 0 ? [cz, cz - 1] : [cz];
+    for (const x of xs) {
+      for (const z of zs) {
+        const chunk = this.getOrCreateChunk(x, z);
+        chunk.heightfield.setHeight(gx - x * size, gz - z * size, value);
+        chunk.modified = true;
+        chunk.meshDirty = true;
+        chunk.grassDirty = true;
+      }
+    }
+  }
+
+  // Sculpts across chunk borders by running the brush on a temporary
+  // heightfield gathered around the dab and writing the result back.
+  applyBrush(x: number, z: number, config: SculptBrushConfig): void {
+    const centerX = Math.round(x);
+    const centerZ = Math.round(z);
+    // Margin so smoothing near the brush edge still reads real neighbours.
+    const margin = Math.ceil(config.radius) + 2;
+    const ramp = config.mode === "ramp" ? config.ramp : undefined;
+    const startX = Math.round(ramp?.startX ?? centerX);
+    const startZ = Math.round(ramp?.startY ?? centerZ);
+    const minX = Math.min(centerX, startX) - margin;
+    const minZ = Math.min(centerZ, startZ) - margin;
+    const maxX = Math.max(centerX, startX) + margin;
+    const maxZ = Math.max(centerZ, startZ) + margin;
+    const window = new Heightfield(maxX - minX + 1, maxZ - minZ + 1, {
+      generator: (wx, wz) => this.getHeight(minX + wx, minZ + wz),
+    });
+    const before = new Float32Array(window.data);
+    applyBrush(window, centerX - minX, centerZ - minZ, {
+      ...config,
+      ramp: ramp && {
+        ...ramp,
+        startX: ramp.startX - minX,
+        startY: ramp.startY - minZ,
+      },
+    });
+
+    for (let wz = 0; wz < window.height; wz++) {
+      for (let wx = 0; wx < window.width; wx++) {
+        const i = wz * window.width + wx;
+        if (window.data[i] === before[i]) continue;
+        this.setHeight(minX + wx, minZ + wz, window.data[i]);
+        // Normals of the vertices around the edit change too.
+        this.markDirtyAround(minX + wx, minZ + wz);
+      }
+    }
+  }
+
+  // Rebuilds the grass of sculpted chunks; call once the stroke is over.
+  refreshGrass(): void {
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.grassDirty) continue;
+      chunk.grassDirty = false;
+      if (chunk.grass) {
+        this.disposeGrass(chunk);
+        this.buildGrass(chunk);
+      }
+    }
+  }
+
+  dispose(): void {
+    for (const chunk of this.chunks.values()) {
+      this.unloadChunk(chunk);
+    }
+    this.chunks.clear();
+  }
+
+  private getOrCreateChunk(cx: number, cz: number): Chunk {
+    const key = chunkKey(cx, cz);
+    let chunk = this.chunks.get(key);
+    if (chunk) return chunk;
+
+    const size = this.chunkSize;
+    const heightfield = new Heightfield(size + 1, size + 1, {
+      generator: (x, z) => this.getHeight(cx * size + x, cz * size + z),
+    });
+    chunk = {
+      cx,
+      cz,
+      heightfield,
+      mesh: null,
+      grass: null,
+      grassDensity: null,
+      modified: false,
+      meshDirty: true,
+      grassDirty: false,
+    };
+    this.chunks.set(key, chunk);
+    return chunk;
+  }
+
+  private loadChunk(chunk: Chunk) {
+    if (chunk.mesh) return;
+    const size = this.chunkSize;
+    chunk.mesh = createTerrain(
+      chunk.heightfield,
+      this.heightScale,
+    ) as Mesh<PlaneGeometry>;
+    chunk.mesh.position.set(
+      chunk.cx * size + size * 0.5,
+      0,
+      chunk.cz * size + size * 0.5,
+    );
+    chunk.mesh.userData.chunk = [chunk.cx, chunk.cz];
+    this.rebuildMesh(chunk);
+    this.group.add(chunk.mesh);
+  }
+
+  private unloadChunk(chunk: Chunk) {
+    this.disposeGrass(chunk);
+    if (!chunk.mesh) return;
+    this.group.remove(chunk.mesh);
+    chunk.mesh.geometry.dispose();
+    (chunk.mesh.material as Material).dispose();
+    chunk.mesh = null;
+    chunk.meshDirty = true;
+  }
+
+  private rebuildMesh(chunk: Chunk) {
+    if (!chunk.mesh) return;
+    const geometry = chunk.mesh.geometry;
+    const { heightfield, cx, cz } = chunk;
+    const size = this.chunkSize;
+    updateTerrainGeometryFromHeightfield(
+      geometry,
+      heightfield,
+      this.heightScale,
+    );
+    // computeVertexNormals can't see past the chunk: redo them globally.
+    updateTerrainNormals(
+      geometry,
+      heightfield.width,
+      heightfield.height,
+      (col, row) => this.getHeight(cx * size + col, cz * size + row),
+      this.heightScale,
+    );
+    updateTerrainVertexColors(geometry, heightfield, this.shading);
+    geometry.computeBoundingSphere();
+    geometry.computeBoundingBox();
+    chunk.meshDirty = false;
+  }
+
+  private buildGrass(chunk: Chunk) {
+    if (!chunk.mesh) return;
+    chunk.grassDensity = createGrassDensityMap(chunk.heightfield, {
+      minHeight: this.shading.heightLow,
+      maxHeight: this.shading.heightHigh,
+      maxSlope: this.shading.slopeThreshold,
+      resolution: chunk.heightfield.width * 2,
+      species: GRASS_SPECIES,
+    });
+    const grass = createGrassInstancedMeshes(
+      chunk.heightfield,
+      chunk.grassDensity,
+      {
+        heightScale: this.heightScale,
+        maxInstances: this.shading.grassInstancesPerChunk,
+      },
+    );
+    // Instances are placed around the chunk centre: move the meshes there and
+    // bring the LOD patch centres into world space.
+    for (const { mesh, farMesh, lod } of grass) {
+      mesh.position.copy(chunk.mesh.position);
+      farMesh.position.copy(chunk.mesh.position);
+      for (const patch of lod.patches) {
+        patch.center.add(chunk.mesh.position);
+      }
+      this.group.add(mesh, farMesh);
+    }
+    chunk.grass = grass;
+    chunk.grassDirty = false;
+  }
+
+  private disposeGrass(chunk: Chunk) {
+    if (chunk.grass) {
+      for (const { mesh, farMesh } of chunk.grass) {
+        this.group.remove(mesh, farMesh);
+        mesh.geometry.dispose();
+        farMesh.geometry.dispose();
+        // Near and far meshes share the material.
+        (mesh.material as Material).dispose();
+      }
+      chunk.grass = null;
+    }
+    if (chunk.grassDensity) {
+      chunk.grassDensity.texture.dispose();
+      chunk.grassDensity = null;
+    }
+  }
+
+  private markDirtyAround(gx: number, gz: number) {
+    const size = this.chunkSize;
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const chunk = this.chunks.get(
+          chunkKey(
+            Math.floor((gx + dx) / size),
+            Math.floor((gz + dz) / size),
+          ),
+        );
+        if (chunk) chunk.meshDirty = true;
+      }
+    }
+  }
+}
+
+function chunkKey(cx: number, cz: number) {
+  return `${cx},${cz}`;
+}
@@ -0,0 +1,263 @@
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import { createSeededRandom } from "./noise";
+
+export type HydraulicErosionParams = {
+  droplets: number;
+  seed: number;
+  inertia?: number; // 0 = follows the gradient, 1 = ignores the terrain
+  sedimentCapacity?: number;
+  minSedimentCapacity?: number;
+  erodeSpeed?: number;
+  depositSpeed?: number;
+  evaporateSpeed?: number;
+  gravity?: number;
+  maxLifetime?: number;
+};
+
+export type ThermalErosionParams = {
+  iterations: number;
+  talus: number; // max height difference between neighbours before material slides
+  strength?: number; // fraction of the excess moved per iteration, default 0.5
+};
+
+export type ErosionParams = {
+  hydraulic?: HydraulicErosionParams;
+  thermal?: ThermalErosionParams;
+};
+
+export type ErosionProgress = (fraction: number) => void;
+
+const DROPLETS_PER_BATCH = 2_000;
+
+export function applyHydraulicErosion(
+  heightfield: Heightfield,
+  params: HydraulicErosionParams,
+  onProgress?: ErosionProgress,
+  // Erosion never reads or writes outside the region.
+  region: HeightfieldRegion = fullRegion(heightfield),
+  random: () => number = createSeededRandom(params.seed),
+): void {
+  const inertia = params.inertia ?? 0.05;
+  const capacityFactor = params.sedimentCapacity ?? 4;
+  const minCapacity = params.minSedimentCapacity ?? 0.01;
+  const erodeSpeed = params.erodeSpeed ?? 0.3;
+  const depositSpeed = params.depositSpeed ?? 0.3;
+  const evaporateSpeed = params.evaporateSpeed ?? 0.01;
+  const gravity = params.gravity ?? 4;
+  const maxLifetime = params.maxLifetime ?? 30;
+
+  const { data, width } = heightfield;
+  // Droplets need a 2x2 cell to sample, so they live inside [min, max - 1].
+  const spanX = region.maxX - region.minX - 1;
+  const spanY = region.maxY - region.minY - 1;
+  if (spanX <= 0 || spanY <= 0) return;
+
+  const sample = { height: 0, gradX: 0, gradY: 0 };
+
+  for (let d = 0; d < params.droplets; d++) {
+    let posX = region.minX + random() * spanX;
+    let posY = region.minY + random() * spanY;
+    let dirX = 0;
+    let dirY = 0;
+    let speed = 1;
+    let water = 1;
+    let sediment = 0;
+
+    for (let life = 0; life < maxLifetime; life++) {
+      const cellX = Math.floor(posX);
+      const cellY = Math.floor(posY);
+      const offsetX = posX - cellX;
+      const offsetY = posY - cellY;
+
+      sampleHeightAndGradient(data, width, posX, posY, sample);
+      const oldHeight = sample.height;
+
+      dirX = dirX * inertia - sample.gradX * (1 - inertia);
+      dirY = dirY * inertia - sample.gradY * (1 - inertia);
+      const len = Math.sqrt(dirX * dirX + dirY * dirY);
+      if (len < 1e-6) break;
+      dirX /= len;
+      dirY /= len;
+      posX += dirX;
+      posY += dirY;
+
+      if (
+        posX < region.minX ||
+        posY < region.minY ||
+        posX >= region.maxX ||
+        posY >= region.maxY
+      ) {
+        break;
+      }
+
+      sampleHeightAndGradient(data, width, posX, posY, sample);
+      const deltaHeight = sample.height - oldHeight;
+
+      const capacity = Math.max(
+        -deltaHeight * speed * water * capacityFactor,
+        minCapacity,
+      );
+
+      if (sediment > capacity || deltaHeight > 0) {
+        // Uphill it fills the pit, otherwise it deposits the excess.
+        const amount =
+          deltaHeight > 0
+            ? Math.min(deltaHeight, sediment)
+            : (sediment - capacity) * depositSpeed;
+        sediment -= amount;
+        depositBilinear(data, width, cellX, cellY, offsetX, offsetY, amount);
+      } else {
+        const amount = Math.min(
+          (capacity - sediment) * erodeSpeed,
+          -deltaHeight,
+        );
+        sediment += amount;
+        depositBilinear(data, width, cellX, cellY, offsetX, offsetY, -amount);
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed + deltaHeight * gravity));
+      water *= 1 - evaporateSpeed;
+    }
+
+    if (onProgress && (d + 1) % DROPLETS_PER_BATCH === 0) {
+      onProgress((d + 1) / params.droplets);
+    }
+  }
+  onProgress?.(1);
+}
+
+export function applyThermalErosion(
+  heightfield: Heightfield,
+  params: ThermalErosionParams,
+  onProgress?: ErosionProgress,
+  region: HeightfieldRegion = fullRegion(heightfield),
+): void {
+  const { data, width } = heightfield;
+  const strength = params.strength ?? 0.5;
+  const talus = Math.max(0, params.talus);
+
+  for (let it = 0; it < params.iterations; it++) {
+    for (let y = region.minY; y <= region.maxY; y++) {
+      for (let x = region.minX; x <= region.maxX; x++) {
+        const index = y * width + x;
+        const h = data[index];
+
+        // Find the lowest 4-connected neighbour and move the excess over talus.
+        let lowestIndex = -1;
+        let maxDiff = talus;
+        if (x > region.minX && h - data[index - 1] > maxDiff) {
+          maxDiff = h - data[index - 1];
+          lowestIndex = index - 1;
+        }
+        if (x < region.maxX && h - data[index + 1] > maxDiff) {
+          maxDiff = h - data[index + 1];
+          lowestIndex = index + 1;
+        }
+        if (y > region.minY && h - data[index - width] > maxDiff) {
+          maxDiff = h - data[index - width];
+          lowestIndex = index - width;
+        }
+        if (y < region.maxY && h - data[index + width] > maxDiff) {
+          maxDiff = h - data[index + width];
+          lowestIndex = index + width;
+        }
+        if (lowestIndex < 0) continue;
+
+        const moved = (maxDiff - talus) * 0.5 * strength;
+        data[index] -= moved;
+        data[lowestIndex] += moved;
+      }
+    }
+    onProgress?.((it + 1) / params.iterations);
+  }
+}
+
+// Runs hydraulic then thermal erosion in batches, yielding between batches so
+// the page can repaint progress. The result is identical to a single run.
+export async function runErosion(
+  heightfield: Heightfield,
+  params: ErosionParams,
+  onProgress?: ErosionProgress,
+): Promise<void> {
+  const hydraulic = params.hydraulic;
+  const thermal = params.thermal;
+  const hydraulicWeight = hydraulic && thermal ? 0.8 : 1;
+
+  if (hydraulic) {
+    const random = createSeededRandom(hydraulic.seed);
+    for (let done = 0; done < hydraulic.droplets; done += DROPLETS_PER_BATCH) {
+      const droplets = Math.min(DROPLETS_PER_BATCH, hydraulic.droplets - done);
+      applyHydraulicErosion(
+        heightfield,
+        { ...hydraulic, droplets },
+        undefined,
+        fullRegion(heightfield),
+        random,
+      );
+      onProgress?.(((done + droplets) / hydraulic.droplets) * hydraulicWeight);
+      await yieldToBrowser();
+    }
+  }
+
+  if (thermal) {
+    const base = hydraulic ? hydraulicWeight : 0;
+    for (let it = 0; it < thermal.iterations; it++) {
+      applyThermalErosion(heightfield, { ...thermal, iterations: 1 });
+      onProgress?.(base + ((it + 1) / thermal.iterations) * (1 - base));
+      await yieldToBrowser();
+    }
+  }
+  onProgress?.(1);
+}
+
+function fullRegion(heightfield: Heightfield): HeightfieldRegion {
+  return {
+    minX: 0,
+    minY: 0,
+    maxX: heightfield.width - 1,
+    maxY: heightfield.height - 1,
+  };
+}
+
+function sampleHeightAndGradient(
+  data: Float32Array,
+  width: number,
+  posX: number,
+  posY: number,
+  out: { height: number; gradX: number; gradY: number },
+) {
+  const x = Math.floor(posX);
+  const y = Math.floor(posY);
+  const u = posX - x;
+  const v = posY - y;
+  const index = y * width + x;
+  const hNW = data[index];
+  const hNE = data[index + 1];
+  const hSW = data[index + width];
+  const hSE = data[index + width + 1];
+
+  out.gradX = (hNE - hNW) * (1 - v) + (hSE - hSW) * v;
+  out.gradY = (hSW - hNW) * (1 - u) + (hSE - hNE) * u;
+  out.height =
+    hNW * (1 - u) * (1 - v) + hNE * u * (1 - v) + hSW * (1 - u) * v + hSE * u * v;
+}
+
+function depositBilinear(
+  data: Float32Array,
+  width: number,
+  x: number,
+  y: number,
+  u: number,
+  v: number,
+  amount: number,
+) {
+  const index = y * width + x;
+  data[index] += amount * (1 - u) * (1 - v);
+  data[index + 1] += amount * u * (1 - v);
+  data[index + width] += amount * (1 - u) * v;
+  data[index + width + 1] += amount * u * v;
+}
+
+function yieldToBrowser(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
@@ -0,0 +1,241 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  DoubleSide,
+  Group,
+  InstancedMesh,
+  Mesh,
+  MeshStandardMaterial,
+  Texture,
+  Vector3,
+} from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { GrassLodContext } from "./grass";
+import { Heightfield, resampleHeightData } from "./heightfield";
+
+export type MeshExportFormat = "glb" | "obj";
+
+export type TerrainExportOptions = {
+  format: MeshExportFormat;
+  heightScale: number;
+  // Decimates the grid to at most this many triangles (default: full resolution).
+  targetTriangles?: number;
+  // GLB only: exported as EXT_mesh_gpu_instancing nodes, at full density
+  // regardless of the current LOD; one node per species.
+  grass?: GrassLodContext[] | null;
+};
+
+export const MESH_EXPORT_EXTENSIONS: Record<MeshExportFormat, string> = {
+  glb: ".glb",
+  obj: ".obj",
+};
+
+export async function exportTerrainMesh(
+  heightfield: Heightfield,
+  terrainGeometry: BufferGeometry,
+  options: TerrainExportOptions,
+): Promise<ArrayBuffer | string> {
+  const geometry = buildExportGeometry(
+    heightfield,
+    terrainGeometry,
+    options.heightScale,
+    options.targetTriangles,
+  );
+
+  if (options.format === "obj") {
+    return writeObj(geometry);
+  }
+
+  const group = new Group();
+  group.name = "World";
+  const terrain = new Mesh(
+    geometry,
+    new MeshStandardMaterial({
+      roughness: 0.9,
+      metalness: 0.05,
+      vertexColors: true,
+    }),
+  );
+  terrain.name = "Terrain";
+  group.add(terrain);
+
+  for (const grass of options.grass ?? []) {
+    if (grass.source.count > 0) group.add(createExportableGrass(grass));
+  }
+
+  const result = await new GLTFExporter().parseAsync(group, { binary: true });
+  geometry.dispose();
+  return result as ArrayBuffer;
+}
+
+// Resolution of the exported grid so that 2 * (w - 1) * (h - 1) <= target,
+// keeping the heightfield aspect ratio.
+export function getDecimatedSize(
+  width: number,
+  height: number,
+  targetTriangles?: number,
+): { width: number; height: number } {
+  const fullTriangles = 2 * (width - 1) * (height - 1);
+  if (!targetTriangles || targetTriangles >= fullTriangles) {
+    return { width, height };
+  }
+  const ratio = Math.sqrt(targetTriangles / fullTriangles);
+  return {
+    width: Math.max(2, Math.floor((width - 1) * ratio) + 1),
+    height: Math.max(2, Math.floor((height - 1) * ratio) + 1),
+  };
+}
+
+function buildExportGeometry(
+  heightfield: Heightfield,
+  terrainGeometry: BufferGeometry,
+  heightScale: number,
+  targetTriangles?: number,
+): BufferGeometry {
+  const size = getDecimatedSize(
+    heightfield.width,
+    heightfield.height,
+    targetTriangles,
+  );
+  const heights =
+    size.width === heightfield.width && size.height === heightfield.height
+      ? heightfield.data
+      : resampleHeightData(
+          heightfield.data,
+          heightfield.width,
+          heightfield.height,
+          size.width,
+          size.height,
+        );
+
+  const sourceNormal = terrainGeometry.getAttribute("normal");
+  const sourceColor = terrainGeometry.getAttribute("color");
+
+  const vertexCount = size.width * size.height;
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = new Float32Array(vertexCount * 3);
+  const colors = new Float32Array(vertexCount * 3);
+  const uvs = new Float32Array(vertexCount * 2);
+  const worldWidth = heightfield.width - 1;
+  const worldHeight = heightfield.height - 1;
+  const normal = new Vector3();
+
+  for (let row = 0; row < size.height; row++) {
+    const v = size.height > 1 ? row / (size.height - 1) : 0;
+    for (let col = 0; col < size.width; col++) {
+      const u = size.width > 1 ? col / (size.width - 1) : 0;
+      const i = row * size.width + col;
+      positions[i * 3] = (u - 0.5) * worldWidth;
+      positions[i * 3 + 1] = heights[i] * heightScale;
+      positions[i * 3 + 2] = (v - 0.5) * worldHeight;
+      // Same convention as PlaneGeometry: v = 1 on the first row.
+      uvs[i * 2] = u;
+      uvs[i * 2 + 1] = 1 - v;
+
+      // Normals and colours come from the live mesh so shading matches the app.
+      const source =
+        Math.round(v * worldHeight) * heightfield.width +
+        Math.round(u * worldWidth);
+      if (sourceNormal) {
+        normal.fromBufferAttribute(sourceNormal, source).normalize();
+      } else {
+        normal.set(0, 1, 0);
+      }
+      normal.toArray(normals, i * 3);
+      colors[i * 3] = sourceColor ? sourceColor.getX(source) : 1;
+      colors[i * 3 + 1] = sourceColor ? sourceColor.getY(source) : 1;
+      colors[i * 3 + 2] = sourceColor ? sourceColor.getZ(source) : 1;
+    }
+  }
+
+  const indices = new Uint32Array((size.width - 1) * (size.height - 1) * 6);
+  let k = 0;
+  for (let row = 0; row < size.height - 1; row++) {
+    for (let col = 0; col < size.width - 1; col++) {
+      const a = row * size.width + col;
+      const b = a + size.width;
+      // Counter-clockwise seen from above, like the rotated PlaneGeometry.
+      indices[k++] = a;
+      indices[k++] = b;
+      indices[k++] = a + 1;
+      indices[k++] = b;
+      indices[k++] = b + 1;
+      indices[k++] = a + 1;
+    }
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute("position", new BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new BufferAttribute(normals, 3));
+  geometry.setAttribute("color", new BufferAttribute(colors, 3));
+  geometry.setAttribute("uv", new BufferAttribute(uvs, 2));
+  geometry.setIndex(new BufferAttribute(indices, 1));
+  return geometry;
+}
+
+// The live grass uses a node material and extra per-instance attributes that
+// glTF can't describe; export the species shape and the instance transforms
+// only.
+function createExportableGrass(grass: GrassLodContext): InstancedMesh {
+  const source = grass.nearMesh.geometry;
+  const geometry = new BufferGeometry();
+  for (const name of ["position", "normal", "uv"]) {
+    const attribute = source.getAttribute(name);
+    if (attribute) geometry.setAttribute(name, attribute);
+  }
+  geometry.setIndex(source.getIndex());
+
+  const sourceMaterial = grass.nearMesh.material as MeshStandardMaterial;
+  const material = new MeshStandardMaterial({
+    color: sourceMaterial.color,
+    map: (sourceMaterial.map as Texture | null) ?? null,
+    alphaTest: sourceMaterial.alphaTest,
+    side: DoubleSide,
+    roughness: 1,
+    metalness: 0,
+  });
+
+  const mesh = new InstancedMesh(geometry, material, grass.source.count);
+  mesh.name = grass.species.name;
+  mesh.instanceMatrix.array.set(
+    grass.source.matrices.subarray(0, grass.source.count * 16),
+  );
+  return mesh;
+}
+
+function writeObj(geometry: BufferGeometry): string {
+  const position = geometry.getAttribute("position");
+  const normal = geometry.getAttribute("normal");
+  const color = geometry.getAttribute("color");
+  const uv = geometry.getAttribute("uv");
+  const index = geometry.getIndex()!;
+  const lines: string[] = ["# webgpu-world-generator terrain", "o Terrain"];
+
+  // Vertex colours use the common "v x y z r g b" extension.
+  for (let i = 0; i < position.count; i++) {
+    const x = fmt(position.getX(i));
+    const y = fmt(position.getY(i));
+    const z = fmt(position.getZ(i));
+    const rgb = `${fmt(color.getX(i))} ${fmt(color.getY(i))} ${fmt(color.getZ(i))}`;
+    lines.push(`v ${x} ${y} ${z} ${rgb}`);
+  }
+  for (let i = 0; i < uv.count; i++) {
+    lines.push(`vt ${fmt(uv.getX(i))} ${fmt(uv.getY(i))}`);
+  }
+  for (let i = 0; i < normal.count; i++) {
+    lines.push(
+      `vn ${fmt(normal.getX(i))} ${fmt(normal.getY(i))} ${fmt(normal.getZ(i))}`,
+    );
+  }
+  for (let i = 0; i < index.count; i += 3) {
+    const a = index.getX(i) + 1;
+    const b = index.getX(i + 1) + 1;
+    const c = index.getX(i + 2) + 1;
+    lines.push(`f ${a}/${a}/${a} ${b}/${b}/${b} ${c}/${c}/${c}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function fmt(value: number) {
+  return Number(value.toFixed(5)).toString();
+}
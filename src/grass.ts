@@ -1,79 +1,115 @@
 import {
+  Camera,
   ClampToEdgeWrapping,
   DataTexture,
-  Euler,
   BufferAttribute,
+  BufferGeometry,
   FloatType,
+  HalfFloatType,
+  IcosahedronGeometry,
   InstancedMesh,
   InstancedBufferAttribute,
   Matrix4,
   NearestFilter,
   PlaneGeometry,
-  Quaternion,
   RedFormat,
+  RGBAFormat,
   SRGBColorSpace,
   RepeatWrapping,
+  Texture,
   TextureLoader,
+  UnsignedByteType,
   Vector2,
   Vector3,
   Color,
+  Frustum,
+  Sphere,
 } from "three";
 import { MeshStandardNodeMaterial, TSL } from "three/webgpu";
 import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
-import { Heightfield } from "./heightfield";
-
-export type GrassDensityMap = {
-  width: number;
-  height: number;
-  data: Float32Array;
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import {
+  computeGrassDensityData,
+  GrassDensityData,
+  GrassDensityParams,
+  GrassInstancingOptions,
+  GrassScatter,
+  regenerateGrassPatches,
+  scatterGrassSpecies,
+  updateGrassDensityData,
+} from "./grassData";
+import { GRASS_SPECIES, GrassShape, GrassSpecies } from "./grassSpecies";
+import { TrampleMap } from "./trample";
+import { WindField } from "./wind";
+
+export type GrassDensityMap = GrassDensityData & {
   texture: DataTexture;
 };
 
-export type GrassDensityParams = {
-  minHeight: number;
-  maxHeight: number;
-  maxSlope: number;
-  resolution?: number; // default: heightfield.width/height
-};
-
-export type GrassInstancingOptions = {
-  heightScale: number;
-  maxInstances?: number; // default: es. 50_000
-};
-
-export type GrassPatch = {
-  center: Vector3;
-  radius: number;
-  startInstance: number;
-  instanceCount: number;
+export type GrassLodContext = GrassScatter & {
+  species: GrassSpecies;
+  nearMesh: InstancedMesh;
+  farMesh: InstancedMesh;
+  // Instances drawn per patch in the last update: [near0, far0, near1, far1...].
+  drawn: Int32Array;
 };
 
-export type GrassLodContext = {
-  patches: GrassPatch[];
-  maxInstances: number;
+export type GrassLodParams = {
+  nearDistance: number; // full density, full blade geometry
+  swapDistance: number; // beyond: single-quad blades
+  maxDistance: number; // beyond: culled
+  minFraction: number; // density kept at maxDistance
+  levels: number; // density steps, fewer steps = fewer re-packs while moving
 };
 
 export type GrassInstanceResult = {
   mesh: InstancedMesh;
+  farMesh: InstancedMesh;
   lod: GrassLodContext;
 };
 
+export const DEFAULT_GRASS_LOD: GrassLodParams = {
+  nearDistance: 35,
+  swapDistance: 70,
+  maxDistance: 180,
+  minFraction: 0.12,
+  levels: 8,
+};
+
+const GRASS_ATTRIBUTES = [
+  "instancePhaseOffset",
+  "instanceStiffness",
+  "instanceColorFactor",
+  "instanceHeightFactor",
+] as const;
+
+// Direction, strength and gusts come from the WindField.
 export type GrassWindParams = {
-  windStrength: number;
   windFrequency: number;
-  gustStrength: number;
   grassVariation?: number;
 };
 
-const baseGrassColor = new Color("#5bbf3a");
-const dryGrassColor = new Color("#c1b46a");
-const { attribute, uniform, vec2, vec3, positionLocal, materialColor } = TSL;
+const {
+  attribute,
+  cameraPosition,
+  float,
+  modelWorldMatrix,
+  texture,
+  uniform,
+  vec2,
+  vec3,
+  vec4,
+  positionLocal,
+  positionWorld,
+  materialColor,
+  mix,
+  smoothstep,
+} = TSL;
 
 const textureLoader = new TextureLoader();
 
-const grassAlbedo = textureLoader.load("/textures/grass_albedo.jpg");
-grassAlbedo.colorSpace = SRGBColorSpace;
-grassAlbedo.wrapS = grassAlbedo.wrapT = RepeatWrapping;
+// Albedo textures by path, shared by every batch of a species.
+const speciesAlbedo = new Map<string, Texture>();
 
 const grassNormal = textureLoader.load("/textures/grass_normal.png");
 grassNormal.wrapS = grassNormal.wrapT = RepeatWrapping;
@@ -83,17 +119,40 @@ grassOrm.wrapS = grassOrm.wrapT = RepeatWrapping;
 
 const windUniforms = {
   uTime: uniform(0),
-  uWindStrength: uniform(0.25),
   uWindFrequency: uniform(1.5),
   uWindNoiseScale: uniform(0.8),
-  uWindDirection: uniform(new Vector2(1, 0).normalize()),
-  uGustStrength: uniform(0.35),
+  // Area covered by the wind texture, in world XZ.
+  uWindOrigin: uniform(new Vector2()),
+  uWindSize: uniform(new Vector2(1, 1)),
   uGustFrequency: uniform(0.5),
   uGustNoiseScale: uniform(0.25),
   uGrassVariation: uniform(0.5),
   uMicroSwayStrength: uniform(0.08),
 };
 
+// Calm until updateGrassWind hands over a WindField texture.
+const windFieldTexture = texture(
+  createPlaceholderTexture(new Uint16Array(4), HalfFloatType),
+);
+
+// Upright until updateGrassTrample hands over a TrampleMap texture.
+const trampleTexture = texture(
+  createPlaceholderTexture(
+    new Uint8Array([128, 128, 0, 255]),
+    UnsignedByteType,
+  ),
+);
+const trampleUniforms = {
+  uTrampleOrigin: uniform(new Vector2()),
+  uTrampleSize: uniform(new Vector2(1, 1)),
+};
+
+// Sun colour and direction, for the light shining through the blades.
+const lightUniforms = {
+  uSunColor: uniform(new Color(1, 1, 1)),
+  uSunDirection: uniform(new Vector3(0, 1, 0)),
+};
+
 function createSingleBladeGeometry(): PlaneGeometry {
   const bladeHeight = 1;
   const bladeWidth = 0.08;
@@ -125,78 +184,129 @@ function createSingleBladeGeometry(): PlaneGeometry {
   return geometry;
 }
 
-export function createGrassDensityMap(
-  heightfield: Heightfield,
-  params: GrassDensityParams,
-): GrassDensityMap {
-  const width = Math.max(
-    1,
-    Math.floor(params.resolution ?? heightfield.width),
-  );
-  const height = Math.max(
-    1,
-    Math.floor(params.resolution ?? heightfield.height),
-  );
-  const data = new Float32Array(width * height);
-
-  const maxSlope = Math.max(params.maxSlope, 1e-5);
-  const sampleStepU =
-    heightfield.width > 1 ? 1 / (heightfield.width - 1) : 0.0;
-  const sampleStepV =
-    heightfield.height > 1 ? 1 / (heightfield.height - 1) : 0.0;
-
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const u = width > 1 ? x / (width - 1) : 0.5;
-      const v = height > 1 ? y / (height - 1) : 0.5;
-
-      const h = sampleHeight(heightfield, u, v);
-      const slope = estimateSlope(
-        heightfield,
-        u,
-        v,
-        sampleStepU,
-        sampleStepV,
-      );
+// Unit-height shape of a species, around its root; the far version is the
+// cheaper one drawn past swapDistance.
+function createSpeciesGeometry(shape: GrassShape, far: boolean) {
+  switch (shape) {
+    case "blades":
+      return far ? fanBlades(1, 0) : fanBlades(2, 0);
+    case "tuft":
+      return far ? fanBlades(1, 0) : fanBlades(3, 0.25);
+    case "flower":
+      return createFlowerGeometry();
+    case "fern":
+      return createFernGeometry(far ? 3 : 5);
+    case "rock":
+      return createRockGeometry(far ? 0 : 1);
+  }
+}
 
-      const heightRange = params.maxHeight - params.minHeight;
-      let heightMask = 0;
-      if (heightRange > 0) {
-        const t = (h - params.minHeight) / heightRange;
-        const tClamped = Math.max(0, Math.min(1, t));
-        heightMask = 1 - Math.abs(tClamped - 0.5) * 2;
-        heightMask = Math.max(0, heightMask);
-      } else {
-        heightMask = 1;
-      }
+// Blades around the same root, evenly turned and leaning out by `lean`.
+function fanBlades(count: number, lean: number) {
+  const blades: BufferGeometry[] = [];
+  for (let i = 0; i < count; i++) {
+    const blade = createSingleBladeGeometry();
+    blade.rotateX(-lean);
+    blade.rotateY((Math.PI / count) * i * (lean > 0 ? 2 : 1));
+    blades.push(setAccent(blade, 0));
+  }
+  const geometry = mergeGeometries(blades, false)!;
+  geometry.computeVertexNormals();
+  for (const blade of blades) blade.dispose();
+  return geometry;
+}
 
-      const slopeT = slope / maxSlope;
-      const slopeClamped = Math.max(0, Math.min(1, slopeT));
-      let slopeMask = 1 - Math.max(0, slopeClamped - 0.6) / 0.4;
-      slopeMask = Math.max(0, Math.min(1, slopeMask));
-
-      const mask = heightMask * slopeMask;
-      let density = 0;
-      if (mask <= 0) {
-        density = 0;
-      } else {
-        const n = pseudoNoise2D(u, v) * 0.7 + 0.3;
-
-        // micro-noise per spezzare pattern di riga
-        const microNoise =
-          (pseudoNoise2D(u * 7.13 + 13.7, v * 9.17 + 3.1) - 0.5) * 0.2; // [-0.1, +0.1]
-
-        const minBase = 0.35;
-        let raw = n + microNoise;
-        raw *= mask;
-        density = minBase + (1 - minBase) * raw;
-      }
-      density = Math.max(0, Math.min(1, density));
+// A thin stem with a crossed head on top, the head tinted by accentColor.
+function createFlowerGeometry() {
+  const stem = createSingleBladeGeometry();
+  stem.scale(0.5, 1, 1);
+  const parts: BufferGeometry[] = [setAccent(stem, 0)];
+  for (let i = 0; i < 2; i++) {
+    const petals = new PlaneGeometry(0.2, 0.2);
+    petals.rotateX(-Math.PI * 0.35);
+    petals.rotateY((Math.PI / 2) * i);
+    petals.translate(0, 1, 0.25);
+    parts.push(setAccent(petals, 1));
+  }
+  const geometry = mergeGeometries(parts, false)!;
+  geometry.computeVertexNormals();
+  for (const part of parts) part.dispose();
+  return geometry;
+}
 
-      data[y * width + x] = density;
+// Fronds arching out from the root and drooping at the tips.
+function createFernGeometry(fronds: number) {
+  const parts: BufferGeometry[] = [];
+  for (let f = 0; f < fronds; f++) {
+    const frond = new PlaneGeometry(0.18, 1, 1, 5);
+    frond.translate(0, 0.5, 0);
+    const pos = frond.getAttribute("position") as BufferAttribute;
+    for (let i = 0; i < pos.count; i++) {
+      const t = pos.getY(i);
+      pos.setXYZ(
+        i,
+        pos.getX(i) * Math.sin(Math.PI * Math.min(0.95, t + 0.1)),
+        t * 0.9 - t * t * 0.5,
+        t * 0.8,
+      );
     }
+    frond.rotateY((Math.PI * 2 * f) / fronds + f * 0.4);
+    parts.push(setAccent(frond, 0));
   }
+  const geometry = mergeGeometries(parts, false)!;
+  geometry.computeVertexNormals();
+  for (const part of parts) part.dispose();
+  return geometry;
+}
 
+// A lumpy, flattened stone sunk a little into the ground.
+function createRockGeometry(detail: number) {
+  const geometry = new IcosahedronGeometry(0.5, detail);
+  const pos = geometry.getAttribute("position") as BufferAttribute;
+  for (let i = 0; i < pos.count; i++) {
+    const x = pos.getX(i);
+    const y = pos.getY(i);
+    const z = pos.getZ(i);
+    // Same position, same bump: the faces stay closed.
+    const bump = 0.8 + 0.35 * fract(Math.sin(x * 12.9 + y * 78.2 + z * 37.7));
+    pos.setXYZ(i, x * bump, (y * bump + 0.3) * 0.9, z * bump);
+  }
+  geometry.computeVertexNormals();
+  return setAccent(geometry, 0);
+}
+
+function setAccent(geometry: BufferGeometry, value: number) {
+  const count = geometry.getAttribute("position").count;
+  geometry.setAttribute(
+    "accent",
+    new BufferAttribute(new Float32Array(count).fill(value), 1),
+  );
+  return geometry;
+}
+
+function getSpeciesAlbedo(path: string) {
+  let albedo = speciesAlbedo.get(path);
+  if (!albedo) {
+    albedo = textureLoader.load(path);
+    albedo.colorSpace = SRGBColorSpace;
+    albedo.wrapS = albedo.wrapT = RepeatWrapping;
+    speciesAlbedo.set(path, albedo);
+  }
+  return albedo;
+}
+
+export function createGrassDensityMap(
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+): GrassDensityMap {
+  return createGrassDensityTexture(computeGrassDensityData(heightfield, params));
+}
+
+// Wraps density computed elsewhere (e.g. in a worker) with its texture.
+export function createGrassDensityTexture(
+  density: GrassDensityData,
+): GrassDensityMap {
+  const { width, height, data, species } = density;
   const texture = new DataTexture(data, width, height, RedFormat, FloatType);
   texture.wrapS = ClampToEdgeWrapping;
   texture.wrapT = ClampToEdgeWrapping;
@@ -204,50 +314,58 @@ export function createGrassDensityMap(
   texture.minFilter = NearestFilter;
   texture.needsUpdate = true;
 
-  return { width, height, data, texture };
+  return { width, height, data, species, texture };
+}
+
+// Recomputes the density texels that depend on a heightfield region. Returns
+// the texels rewritten.
+export function updateGrassDensityRegion(
+  density: GrassDensityMap,
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+  region: HeightfieldRegion,
+): HeightfieldRegion {
+  const bounds = updateGrassDensityData(density, heightfield, params, region);
+  density.texture.needsUpdate = true;
+  return bounds;
 }
 
-export function createGrassInstancedMesh(
+// One batch per species layer of the density.
+export function createGrassInstancedMeshes(
   heightfield: Heightfield,
   density: GrassDensityMap,
   options: GrassInstancingOptions,
+): GrassInstanceResult[] {
+  return scatterGrassSpecies(heightfield, density, options).map(
+    (scatter, i) => createGrassMeshes(scatter, density.species[i].species),
+  );
+}
+
+// Meshes for instances placed by scatterGrassInstances, here or in a worker.
+export function createGrassMeshes(
+  scatter: GrassScatter,
+  species: GrassSpecies = GRASS_SPECIES[0],
 ): GrassInstanceResult {
-  const maxInstances = options.maxInstances ?? 50_000;
-  const maxPerTexel = 6;
-
-  // Compute expected total instances to scale uniformly when capped.
-  let totalExpected = 0;
-  for (let y = 0; y < density.height; y++) {
-    for (let x = 0; x < density.width; x++) {
-      const densityValue = density.data[y * density.width + x];
-      if (densityValue <= 0) continue;
-      totalExpected += densityValue * maxPerTexel;
-    }
-  }
-  const scaleFactor =
-    totalExpected > maxInstances && totalExpected > 0
-      ? maxInstances / totalExpected
-      : 1;
-
-  const bladeGeometryA = createSingleBladeGeometry();
-  const bladeGeometryB = createSingleBladeGeometry();
-  bladeGeometryB.rotateY(Math.PI * 0.5);
-
-  const crossGeometry = mergeGeometries(
-    [bladeGeometryA, bladeGeometryB],
-    false,
-  )!;
-  crossGeometry.computeVertexNormals();
-  bladeGeometryA.dispose();
-  bladeGeometryB.dispose();
-  const geometry = crossGeometry;
+  const { maxInstances, source } = scatter;
+  const geometry = createSpeciesGeometry(species.shape, false);
+  const windResponse = float(species.windResponse);
 
   const instancePhaseOffsetAttr = attribute("instancePhaseOffset", "float");
   const instanceStiffnessAttr = attribute("instanceStiffness", "float");
   const instanceColorFactorAttr = attribute("instanceColorFactor", "float");
   const instanceHeightFactorAttr = attribute("instanceHeightFactor", "float");
 
-  const windDir = windUniforms.uWindDirection.normalize();
+  // Wind vector and gust of the shared field where the blade is rooted.
+  const root = attribute("instanceRoot", "vec2");
+  const rootWorld = modelWorldMatrix.mul(vec4(root.x, 0, root.y, 1)).xz;
+  const windUv = rootWorld
+    .sub(windUniforms.uWindOrigin)
+    .div(windUniforms.uWindSize);
+  const windSample = (
+    windFieldTexture.sample(windUv) as typeof windFieldTexture
+  ).level(float(0));
+  const windAmount = windSample.xy.length();
+  const windDir = windSample.xy.div(windAmount.max(1e-4));
   const gustDir = vec2(windDir.y.negate(), windDir.x);
 
   const heightMul = instanceHeightFactorAttr
@@ -255,7 +373,7 @@ export function createGrassInstancedMesh(
     .mul(0.6)
     .add(0.7); // mix(0.7, 1.3, instanceHeightFactor * variation)
 
-  const basePhase = positionLocal.xz
+  const basePhase = rootWorld
     .mul(windUniforms.uWindNoiseScale)
     .dot(windDir)
     .mul(windUniforms.uWindFrequency)
@@ -263,7 +381,7 @@ export function createGrassInstancedMesh(
     .add(instancePhaseOffsetAttr);
   const baseWind = basePhase.sin();
 
-  const gustPhase = positionLocal.xz
+  const gustPhase = rootWorld
     .mul(windUniforms.uGustNoiseScale)
     .dot(gustDir)
     .mul(windUniforms.uGustFrequency)
@@ -273,7 +391,8 @@ export function createGrassInstancedMesh(
 
   const macroWind = baseWind;
 
-  const gustWindWeighted = gustWind.mul(windUniforms.uGustStrength);
+  // Gust fronts lean the blades downwind, with a little flutter.
+  const gustWindWeighted = gustWind.mul(0.3).add(1).mul(windSample.z).mul(2);
 
   const microPhase = windUniforms.uTime
     .mul(2)
@@ -285,16 +404,40 @@ export function createGrassInstancedMesh(
   const heightFactor = positionLocal.y.mul(heightMul).clamp(0, 1);
   const stiffnessFactor = instanceStiffnessAttr.mul(0.8).add(0.4);
   const bend = combinedWind
-    .mul(windUniforms.uWindStrength)
+    .mul(windAmount)
     .mul(heightFactor)
-    .mul(stiffnessFactor);
+    .mul(stiffnessFactor)
+    .mul(windResponse);
 
   const bendOffset = windDir.mul(bend);
-  const displacedXZ = positionLocal.xz.add(bendOffset);
-  const displacedPosition = vec3(displacedXZ.x, positionLocal.y.mul(heightMul), displacedXZ.y);
+
+  // Trampled blades lean away from whatever pushed them and lie down.
+  const trampleUv = rootWorld
+    .sub(trampleUniforms.uTrampleOrigin)
+    .div(trampleUniforms.uTrampleSize);
+  const trampleSample = (
+    trampleTexture.sample(trampleUv) as typeof trampleTexture
+  ).level(float(0));
+  const trampleOffset = trampleSample.xy
+    .sub(128 / 255)
+    .mul(2)
+    .mul(heightFactor)
+    .mul(windResponse)
+    .mul(0.6);
+  const trampleDrop = trampleSample.z
+    .mul(heightFactor)
+    .mul(windResponse)
+    .mul(0.5);
+
+  const displacedXZ = positionLocal.xz.add(bendOffset).add(trampleOffset);
+  const displacedPosition = vec3(
+    displacedXZ.x,
+    positionLocal.y.mul(heightMul).sub(trampleDrop),
+    displacedXZ.y,
+  );
 
   const baseColorNode = materialColor.rgb;
-  const dryColorNode = vec3(0.76, 0.71, 0.42);
+  const dryColorNode = uniform(new Color(species.dryColor));
   const lushColorNode = vec3(0.35, 0.8, 0.35);
   const variation = instanceColorFactorAttr
     .sub(0.5)
@@ -306,21 +449,43 @@ export function createGrassInstancedMesh(
     .sub(baseColorNode)
     .mul(dryFactor)
     .add(lushColorNode.sub(baseColorNode).mul(lushFactor));
-  const finalColor = baseColorNode.add(colorAdjust);
+  const accentColor = uniform(new Color(species.accentColor ?? species.color));
+  const finalColor = mix(
+    baseColorNode.add(colorAdjust),
+    accentColor,
+    attribute("accent", "float"),
+  );
 
+  // Looking towards the sun the tips glow with its colour (cheap translucency).
+  const viewDir = positionWorld.sub(cameraPosition).normalize();
+  const backlight = viewDir
+    .dot(lightUniforms.uSunDirection)
+    .max(0)
+    .pow(4)
+    .mul(lightUniforms.uSunDirection.y.max(0).sqrt());
+  const glow = species.shape === "rock" ? 0 : 0.35;
+  const translucency = finalColor
+    .mul(lightUniforms.uSunColor)
+    .mul(backlight.mul(heightFactor).mul(glow));
+
+  // Textured species are cut out of their albedo, the others are solid.
+  const textured = species.texture !== null;
   const material = new MeshStandardNodeMaterial({
-    color: baseGrassColor,
-    map: grassAlbedo,
-    normalMap: grassNormal,
-    roughnessMap: grassOrm,
-    metalnessMap: grassOrm,
+    color: new Color(species.color),
+    map: textured ? getSpeciesAlbedo(species.texture!) : null,
+    normalMap: textured ? grassNormal : null,
+    roughnessMap: textured ? grassOrm : null,
+    metalnessMap: textured ? grassOrm : null,
     roughness: 1.0,
     metalness: 0.0,
-    alphaTest: 0.4,
-    transparent: true,
+    alphaTest: textured ? 0.4 : 0,
+    transparent: textured,
   });
   material.positionNode = displacedPosition;
   material.colorNode = finalColor;
+  material.emissiveNode = translucency;
+  // Blades darken towards the ground they grow from.
+  material.aoNode = smoothstep(0, 0.45, heightFactor).mul(0.65).add(0.35);
   material.normalScale.set(1, 1);
   (material as MeshStandardNodeMaterial & { colorSpace?: SRGBColorSpace }).colorSpace =
     SRGBColorSpace;
@@ -343,167 +508,251 @@ export function createGrassInstancedMesh(
     heightFactorArray,
     1,
   );
-  const matrix = new Matrix4();
-  const position = new Vector3();
-  const scale = new Vector3(1, 1, 1);
-  const rotation = new Euler();
-  const quaternion = new Quaternion();
-
-  const worldWidth = heightfield.width - 1;
-  const worldHeight = heightfield.height - 1;
-
-  const patchCountX = 16;
-  const patchCountY = 16;
-  const texelsPerPatchX = Math.ceil(density.width / patchCountX);
-  const texelsPerPatchY = Math.ceil(density.height / patchCountY);
-
-  const patches: GrassPatch[] = [];
-
-  let instanceIndex = 0;
-
-  for (let py = 0; py < patchCountY; py++) {
-    const yStart = py * texelsPerPatchY;
-    const yEnd = Math.min(density.height, yStart + texelsPerPatchY);
-
-    for (let px = 0; px < patchCountX; px++) {
-      const xStart = px * texelsPerPatchX;
-      const xEnd = Math.min(density.width, xStart + texelsPerPatchX);
-
-      const patchStart = instanceIndex;
-
-      let sumX = 0;
-      let sumY = 0;
-      let sumZ = 0;
-      let sampleCount = 0;
-
-      for (let y = yStart; y < yEnd && instanceIndex < maxInstances; y++) {
-        for (let x = xStart; x < xEnd && instanceIndex < maxInstances; x++) {
-          const densityValue = density.data[y * density.width + x];
-          if (densityValue <= 0) continue;
-
-          // size di una cella in UV
-          const cellUSize = density.width > 0 ? 1 / density.width : 1;
-          const cellVSize = density.height > 0 ? 1 / density.height : 1;
-
-          // UV del centro cella
-          const baseU = density.width > 0 ? (x + 0.5) / density.width : 0.5;
-          const baseV = density.height > 0 ? (y + 0.5) / density.height : 0.5;
-
-          const baseRand = pseudoRandom(x, y, 0.37);
-          const expected = densityValue * maxPerTexel;
-          const scaledExpected = expected * scaleFactor;
-          const baseCount = Math.floor(scaledExpected);
-          const fractional = scaledExpected - baseCount;
-          let count = baseCount + (baseRand < fractional ? 1 : 0);
-          const remaining = maxInstances - instanceIndex;
-          if (count > remaining) {
-            count = remaining;
-          }
-          if (count <= 0) continue;
-
-          for (let i = 0; i < count && instanceIndex < maxInstances; i++) {
-            const localRand = pseudoRandom(x, y, i * 1.37 + baseRand);
-
-            // jitter in UV dentro la cella: [-0.5,+0.5] texel
-            const jitterU = (pseudoRandom(x, y, i * 2.11) - 0.5) * cellUSize;
-            const jitterV = (pseudoRandom(x, y, i * 3.73 + 1) - 0.5) * cellVSize;
-
-            const sampleU = clamp(baseU + jitterU, 0, 1);
-            const sampleV = clamp(baseV + jitterV, 0, 1);
-
-            // world pos derivata dagli UV jitterati
-            const worldX = (sampleU - 0.5) * worldWidth;
-            const worldZ = (sampleV - 0.5) * worldHeight;
-
-            // altezza campionata nello stesso punto
-            const height = sampleHeight(heightfield, sampleU, sampleV) * options.heightScale;
-
-            position.set(worldX, height, worldZ);
-
-            const yaw = localRand * Math.PI * 2;
-            const tiltX = (pseudoRandom(x, y, i * 5.13) - 0.5) * 0.2;
-            const tiltZ = (pseudoRandom(x, y, i * 7.91) - 0.5) * 0.2;
-            rotation.set(tiltX, yaw, tiltZ);
-
-            const variation = pseudoRandom(x, y, i * 9.31);
-            const scaleY = 0.8 + localRand * 0.6;
-            const scaleX = 0.4 + variation * 0.4;
-            scale.set(scaleX, scaleY, 1);
-
-            quaternion.setFromEuler(rotation);
-            matrix.compose(position, quaternion, scale);
-
-            phaseArray[instanceIndex] = baseRand * Math.PI * 2;
-            stiffnessArray[instanceIndex] = Math.random();
-            colorFactorArray[instanceIndex] = variation;
-            heightFactorArray[instanceIndex] = variation;
-            mesh.setMatrixAt(instanceIndex, matrix);
-
-            sumX += worldX;
-            sumY += height;
-            sumZ += worldZ;
-            sampleCount++;
-            instanceIndex++;
-          }
-        }
-      }
-
-      const patchInstanceCount = instanceIndex - patchStart;
-      if (patchInstanceCount > 0 && sampleCount > 0) {
-        const center = new Vector3(
-          sumX / sampleCount,
-          sumY / sampleCount,
-          sumZ / sampleCount,
-        );
-        const patchWidthWorld =
-          ((xEnd - xStart) / Math.max(1, density.width)) * worldWidth;
-        const patchHeightWorld =
-          ((yEnd - yStart) / Math.max(1, density.height)) * worldHeight;
-        const radius = Math.sqrt(
-          (patchWidthWorld * patchWidthWorld +
-            patchHeightWorld * patchHeightWorld) *
-            0.25,
-        );
-        patches.push({
-          center,
-          radius,
-          startInstance: patchStart,
-          instanceCount: patchInstanceCount,
-        });
-      }
-    }
-  }
+  // Start with every instance drawn; updateGrassLod re-packs on first use.
+  (mesh.instanceMatrix.array as Float32Array).set(
+    source.matrices.subarray(0, source.count * 16),
+  );
+  const rootAttr = new InstancedBufferAttribute(
+    new Float32Array(maxInstances * 2),
+    2,
+  );
+  copyInstanceRoots(source.matrices, 0, source.count, rootAttr, 0);
+  phaseArray.set(source.phase.subarray(0, source.count));
+  stiffnessArray.set(source.stiffness.subarray(0, source.count));
+  colorFactorArray.set(source.colorFactor.subarray(0, source.count));
+  heightFactorArray.set(source.heightFactor.subarray(0, source.count));
 
+  geometry.setAttribute("instanceRoot", rootAttr);
   geometry.setAttribute("instancePhaseOffset", phaseAttr);
   geometry.setAttribute("instanceStiffness", stiffnessAttr);
   geometry.setAttribute("instanceColorFactor", colorFactorAttr);
   geometry.setAttribute("instanceHeightFactor", heightFactorAttr);
-  mesh.count = instanceIndex;
+  mesh.count = source.count;
   mesh.instanceMatrix.needsUpdate = true;
+  // Culling happens per patch in updateGrassLod.
+  mesh.frustumCulled = false;
+
+  // Cheaper far LOD, e.g. a single quad per blade instead of the crossed pair.
+  const farGeometry = createSpeciesGeometry(species.shape, true);
+  for (const name of GRASS_ATTRIBUTES) {
+    farGeometry.setAttribute(
+      name,
+      new InstancedBufferAttribute(new Float32Array(maxInstances), 1),
+    );
+  }
+  farGeometry.setAttribute(
+    "instanceRoot",
+    new InstancedBufferAttribute(new Float32Array(maxInstances * 2), 2),
+  );
+  const farMesh = new InstancedMesh(farGeometry, material, maxInstances);
+  mesh.name = farMesh.name = species.name;
+  farMesh.count = 0;
+  farMesh.frustumCulled = false;
+  // Only the near blades are worth a place in the shadow map.
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  farMesh.receiveShadow = true;
+
   return {
     mesh,
+    farMesh,
     lod: {
-      patches,
-      maxInstances,
+      ...scatter,
+      species,
+      nearMesh: mesh,
+      farMesh,
+      drawn: new Int32Array(scatter.patches.length * 2).fill(-1),
     },
   };
 }
 
+// Regenerates the patches over a region of density texels (as returned by
+// updateGrassDensityRegion). The meshes are re-packed on the next
+// updateGrassLod.
+export function updateGrassPatches(
+  lod: GrassLodContext,
+  heightfield: Heightfield,
+  density: GrassDensityMap,
+  region: HeightfieldRegion,
+): void {
+  regenerateGrassPatches(lod, heightfield, density, region);
+  lod.drawn.fill(-1);
+}
+
+// Culls patches outside the camera frustum and thins or swaps the rest by
+// distance, re-packing the visible instance ranges into the two meshes.
+// Only re-uploads when the per-patch counts actually change.
+export function updateGrassLod(
+  lod: GrassLodContext,
+  camera: Camera,
+  params: GrassLodParams = DEFAULT_GRASS_LOD,
+): void {
+  camera.updateMatrixWorld();
+  lodProjScreen.multiplyMatrices(
+    camera.projectionMatrix,
+    camera.matrixWorldInverse,
+  );
+  lodFrustum.setFromProjectionMatrix(lodProjScreen);
+  lodCameraPosition.setFromMatrixPosition(camera.matrixWorld);
+
+  let changed = false;
+  const counts = lodCounts.length >= lod.patches.length * 2
+    ? lodCounts
+    : (lodCounts = new Int32Array(lod.patches.length * 2));
+
+  for (let i = 0; i < lod.patches.length; i++) {
+    const patch = lod.patches[i];
+    // Blades can bend and sit above the average height: pad the sphere a bit.
+    lodSphere.set(patch.center, patch.radius + 1.5);
+    let near = 0;
+    let far = 0;
+    if (lodFrustum.intersectsSphere(lodSphere)) {
+      const distance = Math.max(
+        0,
+        lodCameraPosition.distanceTo(patch.center) - patch.radius,
+      );
+      if (distance < params.maxDistance) {
+        const t = Math.max(
+          0,
+          (distance - params.nearDistance) /
+            Math.max(1e-5, params.maxDistance - params.nearDistance),
+        );
+        const steps = Math.max(1, params.levels);
+        const fraction =
+          1 - Math.round(t * steps) / steps * (1 - params.minFraction);
+        const kept = Math.ceil(patch.instanceCount * fraction);
+        if (distance < params.swapDistance) {
+          near = kept;
+        } else {
+          far = kept;
+        }
+      }
+    }
+    counts[i * 2] = near;
+    counts[i * 2 + 1] = far;
+    if (lod.drawn[i * 2] !== near || lod.drawn[i * 2 + 1] !== far) {
+      changed = true;
+    }
+  }
+
+  if (!changed) return;
+  lod.drawn.set(counts.subarray(0, lod.patches.length * 2));
+  packGrassInstances(lod, lod.nearMesh, 0);
+  packGrassInstances(lod, lod.farMesh, 1);
+}
+
+const lodFrustum = new Frustum();
+const lodProjScreen = new Matrix4();
+const lodSphere = new Sphere();
+const lodCameraPosition = new Vector3();
+let lodCounts = new Int32Array(0);
+
+function packGrassInstances(
+  lod: GrassLodContext,
+  mesh: InstancedMesh,
+  slot: 0 | 1,
+) {
+  const { source } = lod;
+  const matrices = mesh.instanceMatrix.array as Float32Array;
+  const targets = GRASS_ATTRIBUTES.map(
+    (name) => mesh.geometry.getAttribute(name) as InstancedBufferAttribute,
+  );
+  const roots = mesh.geometry.getAttribute(
+    "instanceRoot",
+  ) as InstancedBufferAttribute;
+  const sources = [
+    source.phase,
+    source.stiffness,
+    source.colorFactor,
+    source.heightFactor,
+  ];
+
+  let count = 0;
+  for (let i = 0; i < lod.patches.length; i++) {
+    const n = lod.drawn[i * 2 + slot];
+    if (n <= 0) continue;
+    const start = lod.patches[i].startInstance;
+    matrices.set(source.matrices.subarray(start * 16, (start + n) * 16), count * 16);
+    copyInstanceRoots(source.matrices, start, n, roots, count);
+    for (let a = 0; a < targets.length; a++) {
+      (targets[a].array as Float32Array).set(
+        sources[a].subarray(start, start + n),
+        count,
+      );
+    }
+    count += n;
+  }
+
+  mesh.count = count;
+  // Upload only the packed prefix.
+  mesh.instanceMatrix.clearUpdateRanges();
+  mesh.instanceMatrix.addUpdateRange(0, count * 16);
+  mesh.instanceMatrix.needsUpdate = true;
+  for (const target of targets) {
+    target.clearUpdateRanges();
+    target.addUpdateRange(0, count);
+    target.needsUpdate = true;
+  }
+  roots.clearUpdateRanges();
+  roots.addUpdateRange(0, count * 2);
+  roots.needsUpdate = true;
+}
+
+function createPlaceholderTexture(
+  data: Uint8Array | Uint16Array,
+  type: typeof UnsignedByteType | typeof HalfFloatType,
+) {
+  const placeholder = new DataTexture(data, 1, 1, RGBAFormat, type);
+  placeholder.needsUpdate = true;
+  return placeholder;
+}
+
+// Blade roots (XZ of the instance translation), for the wind and trample
+// lookups.
+function copyInstanceRoots(
+  matrices: Float32Array,
+  start: number,
+  count: number,
+  target: InstancedBufferAttribute,
+  offset: number,
+) {
+  const roots = target.array as Float32Array;
+  for (let i = 0; i < count; i++) {
+    roots[(offset + i) * 2] = matrices[(start + i) * 16 + 12];
+    roots[(offset + i) * 2 + 1] = matrices[(start + i) * 16 + 14];
+  }
+}
+
 export function updateGrassWind(
   timeSeconds: number,
   params?: GrassWindParams,
+  field?: WindField,
 ) {
   windUniforms.uTime.value = timeSeconds;
+  if (field) {
+    windFieldTexture.value = field.texture;
+    windUniforms.uWindOrigin.value.copy(field.origin);
+    windUniforms.uWindSize.value.copy(field.size);
+  }
   if (params) {
-    windUniforms.uWindStrength.value = params.windStrength;
     windUniforms.uWindFrequency.value = params.windFrequency;
-    windUniforms.uGustStrength.value = params.gustStrength;
     if (typeof params.grassVariation === "number") {
       windUniforms.uGrassVariation.value = params.grassVariation;
     }
   }
 }
 
+export function updateGrassTrample(map: TrampleMap) {
+  trampleTexture.value = map.texture;
+  trampleUniforms.uTrampleOrigin.value.copy(map.origin);
+  trampleUniforms.uTrampleSize.value.copy(map.size);
+}
+
+export function updateGrassLighting(sunColor: Color, sunDirection: Vector3) {
+  lightUniforms.uSunColor.value.copy(sunColor);
+  lightUniforms.uSunDirection.value.copy(sunDirection).normalize();
+}
+
 export function getGrassDensityAtUV(
   density: GrassDensityMap,
   u: number,
@@ -523,62 +772,11 @@ export function getGrassDensityAtUV(
   return density.data[index] ?? 0;
 }
 
-function sampleHeight(
-  heightfield: Heightfield,
-  u: number,
-  v: number,
-): number {
-  const x = clamp(u, 0, 1) * (heightfield.width - 1);
-  const y = clamp(v, 0, 1) * (heightfield.height - 1);
-  const x0 = Math.floor(x);
-  const y0 = Math.floor(y);
-  const x1 = Math.min(heightfield.width - 1, x0 + 1);
-  const y1 = Math.min(heightfield.height - 1, y0 + 1);
-  const tx = x - x0;
-  const ty = y - y0;
-
-  const h00 = heightfield.getHeight(x0, y0);
-  const h10 = heightfield.getHeight(x1, y0);
-  const h01 = heightfield.getHeight(x0, y1);
-  const h11 = heightfield.getHeight(x1, y1);
-
-  const hx0 = h00 * (1 - tx) + h10 * tx;
-  const hx1 = h01 * (1 - tx) + h11 * tx;
-  return hx0 * (1 - ty) + hx1 * ty;
-}
-
-function estimateSlope(
-  heightfield: Heightfield,
-  u: number,
-  v: number,
-  du: number,
-  dv: number,
-): number {
-  const hL = sampleHeight(heightfield, u - du, v);
-  const hR = sampleHeight(heightfield, u + du, v);
-  const hD = sampleHeight(heightfield, u, v - dv);
-  const hU = sampleHeight(heightfield, u, v + dv);
-  const dx = (hR - hL) * 0.5;
-  const dy = (hU - hD) * 0.5;
-  return Math.sqrt(dx * dx + dy * dy);
-}
-
-function pseudoNoise2D(u: number, v: number) {
-  return (
-    0.5 +
-    0.25 * Math.sin(u * 37.2 + v * 91.7) +
-    0.25 * Math.cos(u * 21.1 - v * 47.0)
-  );
-}
-
-function pseudoRandom(x: number, y: number, seed: number) {
-  return fract(Math.sin(x * 12.9898 + y * 78.233 + seed * 43758.5453) * 43758.5453);
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
 }
 
 function fract(value: number) {
-  return value - Math.floor(value);
-}
-
-function clamp(value: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, value));
+  const scaled = value * 43758.5453;
+  return scaled - Math.floor(scaled);
 }
@@ -0,0 +1,744 @@
+import { Euler, Matrix4, Quaternion, Vector3 } from "three";
+import {
+  Heightfield,
+  HeightfieldRegion,
+  resampleHeightData,
+} from "./heightfield";
+import {
+  getSpeciesWeight,
+  GrassSpecies,
+  splitGrassBudget,
+} from "./grassSpecies";
+import {
+  forEachScatterPoint,
+  getScatterTile,
+  getTileSizeForDensity,
+} from "./scatter";
+import { evaluateFalloff, SculptBrushConfig } from "./sculpt";
+import { getWaterDepth, WaterData } from "./waterData";
+
+// CPU side of the grass: density and instance placement, free of textures,
+// meshes and materials so it can also run inside a worker.
+
+export type GrassDensityParams = {
+  minHeight: number;
+  maxHeight: number;
+  maxSlope: number;
+  resolution?: number; // default: heightfield.width/height
+  mask?: GrassDensityMask;
+  // No grass where the terrain is under water.
+  water?: Pick<WaterData, "width" | "height" | "depth">;
+  // Splits the density into one layer per species.
+  species?: GrassSpecies[];
+};
+
+// Hand-painted multiplier of the procedural density, one value per
+// heightfield texel: 1 keeps the rules, 0 clears a path, GRASS_MASK_MAX makes
+// a meadow as dense as the rules allow there.
+export type GrassDensityMask = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+export type GrassInstancingOptions = {
+  heightScale: number;
+  maxInstances?: number; // default: es. 50_000, shared by the species layers
+  species?: number; // scatter this density layer instead of the whole map
+};
+
+export type GrassDensityData = {
+  width: number;
+  height: number;
+  data: Float32Array;
+  species: GrassSpeciesLayer[];
+};
+
+// The part of the density a species takes, same size as the map.
+export type GrassSpeciesLayer = {
+  species: GrassSpecies;
+  data: Float32Array;
+};
+
+export type GrassPatch = {
+  center: Vector3;
+  radius: number;
+  startInstance: number;
+  instanceCount: number;
+  // Density texels covered by the patch, end excluded.
+  xStart: number;
+  xEnd: number;
+  yStart: number;
+  yEnd: number;
+};
+
+// How instances were laid out, kept to regenerate single patches later.
+export type GrassPatchLayout = {
+  heightScale: number;
+  scaleFactor: number; // blades per texel scale that keeps the total capped
+  species?: number;
+  // Scale factors of the layers before `species`: the scatter ranks they
+  // take are skipped, so species never share a spot.
+  lowerScales: number[];
+  width: [number, number];
+  height: [number, number];
+};
+
+// Full-density instance data, in scatter rank order inside each patch so that
+// any prefix of a patch range is an even subsample of it. Arrays are sized
+// for maxInstances, the first `count` entries are in use.
+export type GrassInstanceData = {
+  count: number;
+  matrices: Float32Array;
+  phase: Float32Array;
+  stiffness: Float32Array;
+  colorFactor: Float32Array;
+  heightFactor: Float32Array;
+};
+
+// Instances and patches before they get meshes.
+export type GrassScatter = {
+  patches: GrassPatch[];
+  maxInstances: number;
+  source: GrassInstanceData;
+  layout: GrassPatchLayout;
+};
+
+export type GrassProgress = (fraction: number) => void;
+
+export const GRASS_MASK_MAX = 2;
+
+const MAX_BLADES_PER_TEXEL = 6;
+const PATCH_COUNT = 16;
+const SCATTER_SEED = 7;
+// Blade proportions when no species is given.
+const DEFAULT_WIDTH: [number, number] = [0.4, 0.8];
+const DEFAULT_HEIGHT: [number, number] = [0.8, 1.4];
+
+export function computeGrassDensityData(
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+  onProgress?: GrassProgress,
+): GrassDensityData {
+  const width = Math.max(
+    1,
+    Math.floor(params.resolution ?? heightfield.width),
+  );
+  const height = Math.max(
+    1,
+    Math.floor(params.resolution ?? heightfield.height),
+  );
+  const density: GrassDensityData = {
+    width,
+    height,
+    data: new Float32Array(width * height),
+    species: (params.species ?? []).map((species) => ({
+      species,
+      data: new Float32Array(width * height),
+    })),
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      writeGrassDensity(density, heightfield, params, x, y);
+    }
+    if (onProgress && y % 64 === 63) onProgress((y + 1) / height);
+  }
+  onProgress?.(1);
+
+  return density;
+}
+
+// Recomputes the density texels that depend on a heightfield region (slope
+// samples reach a couple of texels around it). Returns the texels rewritten.
+export function updateGrassDensityData(
+  density: GrassDensityData,
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+  region: HeightfieldRegion,
+): HeightfieldRegion {
+  const toDensityX = (density.width - 1) / Math.max(1, heightfield.width - 1);
+  const toDensityY =
+    (density.height - 1) / Math.max(1, heightfield.height - 1);
+  const bounds = {
+    minX: Math.max(0, Math.floor((region.minX - 2) * toDensityX)),
+    minY: Math.max(0, Math.floor((region.minY - 2) * toDensityY)),
+    maxX: Math.min(density.width - 1, Math.ceil((region.maxX + 2) * toDensityX)),
+    maxY: Math.min(
+      density.height - 1,
+      Math.ceil((region.maxY + 2) * toDensityY),
+    ),
+  };
+  for (let y = bounds.minY; y <= bounds.maxY; y++) {
+    for (let x = bounds.minX; x <= bounds.maxX; x++) {
+      writeGrassDensity(density, heightfield, params, x, y);
+    }
+  }
+  return bounds;
+}
+
+export function createGrassDensityMask(
+  width: number,
+  height: number,
+): GrassDensityMask {
+  return { width, height, data: new Float32Array(width * height).fill(1) };
+}
+
+// Add strokes grow the mask towards GRASS_MASK_MAX, erase strokes towards 0;
+// radius, intensity, falloff and flow work as for sculpting. Returns the
+// texels changed, in heightfield space.
+export function applyGrassMaskBrush(
+  mask: GrassDensityMask,
+  centerX: number,
+  centerY: number,
+  config: SculptBrushConfig,
+  erase = false,
+): HeightfieldRegion {
+  const { width, height, data } = mask;
+  const { radius } = config;
+  const region = {
+    minX: Math.max(0, Math.floor(centerX - radius)),
+    minY: Math.max(0, Math.floor(centerY - radius)),
+    maxX: Math.min(width - 1, Math.ceil(centerX + radius)),
+    maxY: Math.min(height - 1, Math.ceil(centerY + radius)),
+  };
+  const target = erase ? 0 : GRASS_MASK_MAX;
+  const amount = Math.min(1, config.intensity * 4 * (config.flow ?? 1));
+  for (let y = region.minY; y <= region.maxY; y++) {
+    for (let x = region.minX; x <= region.maxX; x++) {
+      const dx = x - centerX;
+      const dy = y - centerY;
+      const t = Math.sqrt(dx * dx + dy * dy) / radius;
+      if (t > 1) continue;
+      const k =
+        amount * evaluateFalloff(t, config.falloff, config.falloffCurve);
+      const i = y * width + x;
+      data[i] += (target - data[i]) * k;
+    }
+  }
+  return region;
+}
+
+// Loaded worlds may come from a heightfield of another size; an empty array
+// resets the mask.
+export function loadGrassDensityMask(
+  mask: GrassDensityMask,
+  data: Float32Array,
+  width: number,
+  height: number,
+): void {
+  if (data.length !== width * height) {
+    mask.data.fill(1);
+    return;
+  }
+  mask.data.set(
+    width === mask.width && height === mask.height
+      ? data
+      : resampleHeightData(data, width, height, mask.width, mask.height),
+  );
+}
+
+export function scatterGrassInstances(
+  heightfield: Heightfield,
+  density: GrassDensityData,
+  options: GrassInstancingOptions,
+  onProgress?: GrassProgress,
+): GrassScatter {
+  const { species } = options;
+  const layer = species === undefined ? null : density.species[species];
+  let maxInstances = options.maxInstances ?? 50_000;
+  let scales = [getScaleFactor(density, density.data, maxInstances)];
+  if (species !== undefined) {
+    // Every layer gets its share of the budget, scaled on its own.
+    const budgets = splitGrassBudget(
+      maxInstances,
+      density.species.map((entry) => entry.species),
+    );
+    maxInstances = budgets[species];
+    scales = density.species.map((entry, i) =>
+      i > species ? 0 : getScaleFactor(density, entry.data, budgets[i]),
+    );
+  }
+
+  const layout: GrassPatchLayout = {
+    heightScale: options.heightScale,
+    scaleFactor: scales[species ?? 0],
+    species,
+    lowerScales: scales.slice(0, species ?? 0),
+    width: layer ? layer.species.width : DEFAULT_WIDTH,
+    height: layer ? layer.species.height : DEFAULT_HEIGHT,
+  };
+  const source = createInstanceData(maxInstances);
+
+  const texelsPerPatchX = Math.ceil(density.width / PATCH_COUNT);
+  const texelsPerPatchY = Math.ceil(density.height / PATCH_COUNT);
+
+  // Empty patches are kept too: sculpting may grow grass there later.
+  const patches: GrassPatch[] = [];
+
+  for (let py = 0; py < PATCH_COUNT; py++) {
+    const yStart = Math.min(density.height, py * texelsPerPatchY);
+    const yEnd = Math.min(density.height, yStart + texelsPerPatchY);
+
+    for (let px = 0; px < PATCH_COUNT; px++) {
+      const xStart = Math.min(density.width, px * texelsPerPatchX);
+      const xEnd = Math.min(density.width, xStart + texelsPerPatchX);
+
+      const patch: GrassPatch = {
+        center: new Vector3(),
+        radius: 0,
+        startInstance: source.count,
+        instanceCount: 0,
+        xStart,
+        xEnd,
+        yStart,
+        yEnd,
+      };
+      patch.instanceCount = writePatchInstances(
+        heightfield,
+        density,
+        patch,
+        layout,
+        source,
+        source.count,
+        maxInstances - source.count,
+      );
+      source.count += patch.instanceCount;
+      patches.push(patch);
+    }
+    onProgress?.((py + 1) / PATCH_COUNT);
+  }
+
+  return { patches, maxInstances, source, layout };
+}
+
+// One scatter per species layer of the density, sharing maxInstances.
+export function scatterGrassSpecies(
+  heightfield: Heightfield,
+  density: GrassDensityData,
+  options: GrassInstancingOptions,
+  onProgress?: GrassProgress,
+): GrassScatter[] {
+  const count = density.species.length;
+  return density.species.map((_, species) =>
+    scatterGrassInstances(
+      heightfield,
+      density,
+      { ...options, species },
+      onProgress && ((fraction) => onProgress((species + fraction) / count)),
+    ),
+  );
+}
+
+// Regenerates the patches over a region of density texels (as returned by
+// updateGrassDensityData), moving later patches when a count changes.
+export function regenerateGrassPatches(
+  scatter: GrassScatter,
+  heightfield: Heightfield,
+  density: GrassDensityData,
+  region: HeightfieldRegion,
+): void {
+  const { source, patches } = scatter;
+  patches.forEach((patch, p) => {
+    // Blades of a texel are jittered up to half a texel around it.
+    if (
+      patch.xStart > region.maxX + 1 ||
+      patch.xEnd <= region.minX - 1 ||
+      patch.yStart > region.maxY + 1 ||
+      patch.yEnd <= region.minY - 1
+    ) {
+      return;
+    }
+
+    const capacity =
+      (patch.xEnd - patch.xStart) *
+      (patch.yEnd - patch.yStart) *
+      MAX_BLADES_PER_TEXEL;
+    const scratch = createInstanceData(capacity);
+    const available = scatter.maxInstances - source.count + patch.instanceCount;
+    const count = writePatchInstances(
+      heightfield,
+      density,
+      patch,
+      scatter.layout,
+      scratch,
+      0,
+      Math.min(capacity, available),
+    );
+
+    const delta = count - patch.instanceCount;
+    if (delta !== 0) {
+      const tail = patch.startInstance + patch.instanceCount;
+      moveInstances(source, tail, tail + delta, source.count - tail);
+      for (let i = p + 1; i < patches.length; i++) {
+        patches[i].startInstance += delta;
+      }
+      source.count += delta;
+    }
+    patch.instanceCount = count;
+    copyInstances(scratch, 0, source, patch.startInstance, count);
+  });
+}
+
+// Writes the blades of one patch from `offset`, at most `limit` of them, and
+// updates the patch bounds. Returns how many were written.
+function writePatchInstances(
+  heightfield: Heightfield,
+  density: GrassDensityData,
+  patch: GrassPatch,
+  layout: GrassPatchLayout,
+  target: GrassInstanceData,
+  offset: number,
+  limit: number,
+): number {
+  const { xStart, xEnd, yStart, yEnd } = patch;
+  const data =
+    layout.species === undefined
+      ? density.data
+      : density.species[layout.species].data;
+  const worldWidth = heightfield.width - 1;
+  const worldHeight = heightfield.height - 1;
+
+  let sumX = 0;
+  let sumY = 0;
+  let sumZ = 0;
+
+  // Ranked points over the patch, in density texels; a texel keeps the ranks
+  // its layer takes there.
+  const tile = getScatterTile(SCATTER_SEED);
+  const tileSize = getTileSizeForDensity(tile, MAX_BLADES_PER_TEXEL);
+  const kept: number[] = [];
+  forEachScatterPoint(
+    tile,
+    tileSize,
+    xStart,
+    yStart,
+    xEnd,
+    yEnd,
+    (px, py, rank) => {
+      const i = Math.floor(py) * density.width + Math.floor(px);
+      const densityValue = data[i];
+      if (densityValue <= 0) return;
+      let lower = 0;
+      layout.lowerScales.forEach((scale, k) => {
+        lower += density.species[k].data[i] * scale;
+      });
+      if (rank < lower || rank >= lower + densityValue * layout.scaleFactor) {
+        return;
+      }
+      kept.push(px, py, rank);
+    },
+  );
+  // Lowest ranks first, so that the LOD prefixes stay blue noise too.
+  const order = Array.from({ length: kept.length / 3 }, (_, k) => k).sort(
+    (a, b) => kept[a * 3 + 2] - kept[b * 3 + 2],
+  );
+  const count = Math.min(order.length, Math.max(0, limit));
+
+  for (let k = 0; k < count; k++) {
+    const x = kept[order[k] * 3];
+    const y = kept[order[k] * 3 + 1];
+    const instanceIndex = offset + k;
+    const sampleU = clamp(x / Math.max(1, density.width), 0, 1);
+    const sampleV = clamp(y / Math.max(1, density.height), 0, 1);
+
+    // world pos derivata dagli UV del punto
+    const worldX = (sampleU - 0.5) * worldWidth;
+    const worldZ = (sampleV - 0.5) * worldHeight;
+
+    // altezza campionata nello stesso punto
+    const height =
+      sampleHeight(heightfield, sampleU, sampleV) * layout.heightScale;
+
+    instancePosition.set(worldX, height, worldZ);
+
+    const localRand = pseudoRandom(x, y, 1.37);
+    const yaw = localRand * Math.PI * 2;
+    const tiltX = (pseudoRandom(x, y, 5.13) - 0.5) * 0.2;
+    const tiltZ = (pseudoRandom(x, y, 7.91) - 0.5) * 0.2;
+    instanceRotation.set(tiltX, yaw, tiltZ);
+
+    const variation = pseudoRandom(x, y, 9.31);
+    const scaleY = lerp(layout.height, localRand);
+    const scaleX = lerp(layout.width, variation);
+    instanceScale.set(scaleX, scaleY, 1);
+
+    instanceQuaternion.setFromEuler(instanceRotation);
+    instanceMatrix.compose(instancePosition, instanceQuaternion, instanceScale);
+
+    target.phase[instanceIndex] = pseudoRandom(x, y, 0.37) * Math.PI * 2;
+    target.stiffness[instanceIndex] = pseudoRandom(x, y, 3.73);
+    target.colorFactor[instanceIndex] = variation;
+    target.heightFactor[instanceIndex] = variation;
+    instanceMatrix.toArray(target.matrices, instanceIndex * 16);
+
+    sumX += worldX;
+    sumY += height;
+    sumZ += worldZ;
+  }
+
+  const patchWidthWorld =
+    ((xEnd - xStart) / Math.max(1, density.width)) * worldWidth;
+  const patchHeightWorld =
+    ((yEnd - yStart) / Math.max(1, density.height)) * worldHeight;
+  if (count > 0) {
+    patch.center.set(sumX / count, sumY / count, sumZ / count);
+  } else {
+    const u = (xStart + xEnd) / 2 / Math.max(1, density.width);
+    const v = (yStart + yEnd) / 2 / Math.max(1, density.height);
+    patch.center.set(
+      (u - 0.5) * worldWidth,
+      sampleHeight(heightfield, u, v) * layout.heightScale,
+      (v - 0.5) * worldHeight,
+    );
+  }
+  patch.radius = Math.sqrt(
+    (patchWidthWorld * patchWidthWorld +
+      patchHeightWorld * patchHeightWorld) *
+      0.25,
+  );
+  return count;
+}
+
+// Keeps the expected instances of a density layer within `maxInstances`.
+function getScaleFactor(
+  density: GrassDensityData,
+  data: Float32Array,
+  maxInstances: number,
+) {
+  let totalExpected = 0;
+  for (let i = 0; i < density.width * density.height; i++) {
+    if (data[i] > 0) totalExpected += data[i] * MAX_BLADES_PER_TEXEL;
+  }
+  return totalExpected > maxInstances && totalExpected > 0
+    ? maxInstances / totalExpected
+    : 1;
+}
+
+const instanceMatrix = new Matrix4();
+const instancePosition = new Vector3();
+const instanceScale = new Vector3(1, 1, 1);
+const instanceRotation = new Euler();
+const instanceQuaternion = new Quaternion();
+
+function createInstanceData(capacity: number): GrassInstanceData {
+  return {
+    count: 0,
+    matrices: new Float32Array(capacity * 16),
+    phase: new Float32Array(capacity),
+    stiffness: new Float32Array(capacity),
+    colorFactor: new Float32Array(capacity),
+    heightFactor: new Float32Array(capacity),
+  };
+}
+
+function copyInstances(
+  from: GrassInstanceData,
+  fromIndex: number,
+  to: GrassInstanceData,
+  toIndex: number,
+  count: number,
+) {
+  to.matrices.set(
+    from.matrices.subarray(fromIndex * 16, (fromIndex + count) * 16),
+    toIndex * 16,
+  );
+  to.phase.set(from.phase.subarray(fromIndex, fromIndex + count), toIndex);
+  to.stiffness.set(
+    from.stiffness.subarray(fromIndex, fromIndex + count),
+    toIndex,
+  );
+  to.colorFactor.set(
+    from.colorFactor.subarray(fromIndex, fromIndex + count),
+    toIndex,
+  );
+  to.heightFactor.set(
+    from.heightFactor.subarray(fromIndex, fromIndex + count),
+    toIndex,
+  );
+}
+
+// Shifts a run of instances inside the same arrays (ranges may overlap).
+function moveInstances(
+  data: GrassInstanceData,
+  from: number,
+  to: number,
+  count: number,
+) {
+  if (count <= 0 || from === to) return;
+  data.matrices.copyWithin(to * 16, from * 16, (from + count) * 16);
+  for (const array of [
+    data.phase,
+    data.stiffness,
+    data.colorFactor,
+    data.heightFactor,
+  ]) {
+    array.copyWithin(to, from, from + count);
+  }
+}
+
+// Density of one texel and its share for every species layer.
+function writeGrassDensity(
+  density: GrassDensityData,
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+  x: number,
+  y: number,
+) {
+  const i = y * density.width + x;
+  const value = computeGrassDensity(
+    heightfield,
+    params,
+    density.width > 1 ? x / (density.width - 1) : 0.5,
+    density.height > 1 ? y / (density.height - 1) : 0.5,
+  );
+  density.data[i] = value;
+  const { elevation, slope } = densitySite;
+  for (const layer of density.species) {
+    layer.data[i] =
+      value > 0 ? value * getSpeciesWeight(layer.species, elevation, slope) : 0;
+  }
+}
+
+// Where the last computeGrassDensity sample fell, relative to the rules.
+const densitySite = { elevation: 0, slope: 0 };
+
+function computeGrassDensity(
+  heightfield: Heightfield,
+  params: GrassDensityParams,
+  u: number,
+  v: number,
+): number {
+  const maxSlope = Math.max(params.maxSlope, 1e-5);
+  const sampleStepU =
+    heightfield.width > 1 ? 1 / (heightfield.width - 1) : 0.0;
+  const sampleStepV =
+    heightfield.height > 1 ? 1 / (heightfield.height - 1) : 0.0;
+
+  const h = sampleHeight(heightfield, u, v);
+  const slope = estimateSlope(heightfield, u, v, sampleStepU, sampleStepV);
+
+  const heightRange = params.maxHeight - params.minHeight;
+  let heightMask = 0;
+  densitySite.elevation = 0.5;
+  if (heightRange > 0) {
+    const t = (h - params.minHeight) / heightRange;
+    densitySite.elevation = t;
+    const tClamped = Math.max(0, Math.min(1, t));
+    heightMask = 1 - Math.abs(tClamped - 0.5) * 2;
+    heightMask = Math.max(0, heightMask);
+  } else {
+    heightMask = 1;
+  }
+
+  const slopeT = slope / maxSlope;
+  densitySite.slope = slopeT;
+  const slopeClamped = Math.max(0, Math.min(1, slopeT));
+  let slopeMask = 1 - Math.max(0, slopeClamped - 0.6) / 0.4;
+  slopeMask = Math.max(0, Math.min(1, slopeMask));
+
+  const mask = heightMask * slopeMask;
+  let density = 0;
+  if (mask <= 0) {
+    density = 0;
+  } else {
+    const n = pseudoNoise2D(u, v) * 0.7 + 0.3;
+
+    const minBase = 0.35;
+    const raw = n * mask;
+    density = minBase + (1 - minBase) * raw;
+  }
+  if (params.mask) density *= sampleMask(params.mask, u, v);
+  if (params.water) {
+    const { water } = params;
+    const depth = getWaterDepth(
+      water,
+      clamp(u, 0, 1) * (water.width - 1),
+      clamp(v, 0, 1) * (water.height - 1),
+    );
+    if (depth > 0) density = 0;
+  }
+  return Math.max(0, Math.min(1, density));
+}
+
+function sampleMask(mask: GrassDensityMask, u: number, v: number): number {
+  const x = clamp(u, 0, 1) * (mask.width - 1);
+  const y = clamp(v, 0, 1) * (mask.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(mask.width - 1, x0 + 1);
+  const y1 = Math.min(mask.height - 1, y0 + 1);
+  const tx = x - x0;
+  const ty = y - y0;
+  const top =
+    mask.data[y0 * mask.width + x0] * (1 - tx) +
+    mask.data[y0 * mask.width + x1] * tx;
+  const bottom =
+    mask.data[y1 * mask.width + x0] * (1 - tx) +
+    mask.data[y1 * mask.width + x1] * tx;
+  return top * (1 - ty) + bottom * ty;
+}
+
+function sampleHeight(
+  heightfield: Heightfield,
+  u: number,
+  v: number,
+): number {
+  const x = clamp(u, 0, 1) * (heightfield.width - 1);
+  const y = clamp(v, 0, 1) * (heightfield.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(heightfield.width - 1, x0 + 1);
+  const y1 = Math.min(heightfield.height - 1, y0 + 1);
+  const tx = x - x0;
+  const ty = y - y0;
+
+  const h00 = heightfield.getHeight(x0, y0);
+  const h10 = heightfield.getHeight(x1, y0);
+  const h01 = heightfield.getHeight(x0, y1);
+  const h11 = heightfield.getHeight(x1, y1);
+
+  const hx0 = h00 * (1 - tx) + h10 * tx;
+  const hx1 = h01 * (1 - tx) + h11 * tx;
+  return hx0 * (1 - ty) + hx1 * ty;
+}
+
+function estimateSlope(
+  heightfield: Heightfield,
+  u: number,
+  v: number,
+  du: number,
+  dv: number,
+): number {
+  const hL = sampleHeight(heightfield, u - du, v);
+  const hR = sampleHeight(heightfield, u + du, v);
+  const hD = sampleHeight(heightfield, u, v - dv);
+  const hU = sampleHeight(heightfield, u, v + dv);
+  const dx = (hR - hL) * 0.5;
+  const dy = (hU - hD) * 0.5;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function pseudoNoise2D(u: number, v: number) {
+  return (
+    0.5 +
+    0.25 * Math.sin(u * 37.2 + v * 91.7) +
+    0.25 * Math.cos(u * 21.1 - v * 47.0)
+  );
+}
+
+function pseudoRandom(x: number, y: number, seed: number) {
+  return fract(Math.sin(x * 12.9898 + y * 78.233 + seed * 43758.5453) * 43758.5453);
+}
+
+function lerp([min, max]: [number, number], t: number) {
+  return min + (max - min) * t;
+}
+
+function fract(value: number) {
+  return value - Math.floor(value);
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
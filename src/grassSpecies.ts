@@ -0,0 +1,126 @@
+// Ground cover growing from the grass density map. Each species takes its own
+// share of the density where the terrain suits it and gets its own instanced
+// batch; pure data, so the worker can read it too.
+
+export type GrassShape = "blades" | "tuft" | "flower" | "fern" | "rock";
+
+export type GrassSpecies = {
+  name: string;
+  shape: GrassShape;
+  texture: string | null; // albedo under public/, null = flat colour
+  color: string;
+  dryColor: string;
+  accentColor?: string; // flower heads
+  // Where it grows, as fractions of the density rules: elevation between
+  // minHeight and maxHeight, slope of maxSlope.
+  elevation: [number, number];
+  slope: [number, number];
+  density: number; // multiplier of the shared density
+  width: [number, number]; // instance scale ranges
+  height: [number, number];
+  windResponse: number; // 0 = rigid, 1 = bends like grass (also when trampled)
+};
+
+export const GRASS_SPECIES: GrassSpecies[] = [
+  {
+    name: "Tall grass",
+    shape: "blades",
+    texture: "/textures/grass_albedo.jpg",
+    color: "#5bbf3a",
+    dryColor: "#c1b46a",
+    elevation: [0, 0.65],
+    slope: [0, 0.8],
+    density: 1,
+    width: [0.4, 0.8],
+    height: [0.8, 1.4],
+    windResponse: 1,
+  },
+  {
+    name: "Short grass",
+    shape: "tuft",
+    texture: "/textures/grass_albedo2.jpg",
+    color: "#6fae45",
+    dryColor: "#b3a564",
+    elevation: [0.25, 1],
+    slope: [0, 1],
+    density: 0.8,
+    width: [0.5, 0.9],
+    height: [0.35, 0.6],
+    windResponse: 0.6,
+  },
+  {
+    name: "Flowers",
+    shape: "flower",
+    texture: null,
+    color: "#4f9a35",
+    dryColor: "#9c9a55",
+    accentColor: "#f2d64b",
+    elevation: [0.1, 0.7],
+    slope: [0, 0.5],
+    density: 0.12,
+    width: [0.7, 1.1],
+    height: [0.5, 0.8],
+    windResponse: 0.8,
+  },
+  {
+    name: "Ferns",
+    shape: "fern",
+    texture: null,
+    color: "#3f8a34",
+    dryColor: "#8a8a48",
+    elevation: [0, 0.45],
+    slope: [0.2, 0.9],
+    density: 0.1,
+    width: [0.8, 1.2],
+    height: [0.6, 0.9],
+    windResponse: 0.4,
+  },
+  {
+    name: "Rocks",
+    shape: "rock",
+    texture: null,
+    color: "#8a857c",
+    dryColor: "#a29c8e",
+    elevation: [0.35, 1],
+    slope: [0.5, 1],
+    density: 0.04,
+    width: [0.3, 0.9],
+    height: [0.2, 0.6],
+    windResponse: 0,
+  },
+];
+
+// How much of the density a species takes at a spot, from 0 to its density
+// multiplier. `elevation` and `slope` are fractions of the density rules.
+export function getSpeciesWeight(
+  species: GrassSpecies,
+  elevation: number,
+  slope: number,
+): number {
+  return (
+    species.density *
+    rangeMask(elevation, species.elevation) *
+    rangeMask(slope, species.slope)
+  );
+}
+
+// Instances each species may use out of `total`, in proportion to their
+// density multipliers.
+export function splitGrassBudget(
+  total: number,
+  species: GrassSpecies[],
+): number[] {
+  const sum = species.reduce((acc, entry) => acc + entry.density, 0);
+  return species.map((entry) =>
+    sum > 0 ? Math.round((total * entry.density) / sum) : 0,
+  );
+}
+
+// 1 inside the range, fading out over a tenth of the rules outside it.
+const RANGE_FADE = 0.1;
+
+function rangeMask(value: number, [min, max]: [number, number]) {
+  const below = (value - (min - RANGE_FADE)) / RANGE_FADE;
+  const above = (max + RANGE_FADE - value) / RANGE_FADE;
+  return Math.max(0, Math.min(1, below, above));
+}
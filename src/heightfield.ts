@@ -1,7 +1,20 @@
+import {
+  createNoiseGenerator,
+  HeightGenerator,
+  NoiseGeneratorConfig,
+} from "./noise";
+
 export type HeightfieldOptions = {
-  useSimpleNoise?: boolean;
-  noiseAmplitude?: number;
-  noiseFrequency?: number;
+  // A noise config (seeded, reproducible) or any custom height function.
+  generator?: NoiseGeneratorConfig | HeightGenerator;
+};
+
+// Inclusive texel bounds inside a heightfield.
+export type HeightfieldRegion = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
 };
 
 export class Heightfield {
@@ -18,11 +31,20 @@ export class Heightfield {
     this.height = height;
     this.data = new Float32Array(width * height);
 
-    if (options.useSimpleNoise) {
-      this.fillWithSimpleNoise(
-        options.noiseAmplitude ?? 1,
-        options.noiseFrequency ?? 0.1,
-      );
+    if (options.generator) {
+      this.generate(options.generator);
+    }
+  }
+
+  generate(generator: NoiseGeneratorConfig | HeightGenerator): void {
+    const sample =
+      typeof generator === "function"
+        ? generator
+        : createNoiseGenerator(generator);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        this.data[this.index(x, y)] = sample(x, y);
+      }
     }
   }
 
@@ -34,21 +56,72 @@ export class Heightfield {
     this.data[this.index(x, y)] = value;
   }
 
+  // Bilinear height at fractional texel coordinates, clamped to the edges.
+  sampleHeight(x: number, y: number): number {
+    const cx = Math.min(this.width - 1, Math.max(0, x));
+    const cy = Math.min(this.height - 1, Math.max(0, y));
+    const x0 = Math.floor(cx);
+    const y0 = Math.floor(cy);
+    const x1 = Math.min(this.width - 1, x0 + 1);
+    const y1 = Math.min(this.height - 1, y0 + 1);
+    const tx = cx - x0;
+    const ty = cy - y0;
+    const h00 = this.getHeight(x0, y0);
+    const h10 = this.getHeight(x1, y0);
+    const h01 = this.getHeight(x0, y1);
+    const h11 = this.getHeight(x1, y1);
+    const hx0 = h00 * (1 - tx) + h10 * tx;
+    const hx1 = h01 * (1 - tx) + h11 * tx;
+    return hx0 * (1 - ty) + hx1 * ty;
+  }
+
   private index(x: number, y: number): number {
     return y * this.width + x;
   }
+}
 
-  private fillWithSimpleNoise(amplitude: number, frequency: number) {
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const nx = x * frequency;
-        const ny = y * frequency;
-        const h =
-          Math.sin(nx) * 0.6 +
-          Math.cos(ny * 0.8) * 0.4 +
-          Math.sin(nx * 0.35 + ny * 0.15) * 0.8;
-        this.setHeight(x, y, h * amplitude);
-      }
+// Bilinear resample of a row-major height grid to a new resolution.
+export function resampleHeightData(
+  source: Float32Array,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+): Float32Array {
+  const out = new Float32Array(targetWidth * targetHeight);
+  for (let y = 0; y < targetHeight; y++) {
+    const sy =
+      targetHeight > 1 ? (y / (targetHeight - 1)) * (sourceHeight - 1) : 0;
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(sourceHeight - 1, y0 + 1);
+    const ty = sy - y0;
+    for (let x = 0; x < targetWidth; x++) {
+      const sx =
+        targetWidth > 1 ? (x / (targetWidth - 1)) * (sourceWidth - 1) : 0;
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(sourceWidth - 1, x0 + 1);
+      const tx = sx - x0;
+      const h00 = source[y0 * sourceWidth + x0];
+      const h10 = source[y0 * sourceWidth + x1];
+      const h01 = source[y1 * sourceWidth + x0];
+      const h11 = source[y1 * sourceWidth + x1];
+      const hx0 = h00 * (1 - tx) + h10 * tx;
+      const hx1 = h01 * (1 - tx) + h11 * tx;
+      out[y * targetWidth + x] = hx0 * (1 - ty) + hx1 * ty;
     }
   }
+  return out;
+}
+
+// Smallest region covering both.
+export function mergeRegions(
+  a: HeightfieldRegion,
+  b: HeightfieldRegion,
+): HeightfieldRegion {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
 }
@@ -0,0 +1,441 @@
+import { DataTexture, FloatType, RedFormat, RGBAFormat } from "three";
+import { EXRLoader } from "three/examples/jsm/loaders/EXRLoader.js";
+import {
+  EXRExporter,
+  ZIPS_COMPRESSION,
+} from "three/examples/jsm/exporters/EXRExporter.js";
+import { Heightfield, resampleHeightData } from "./heightfield";
+
+export type HeightmapFormat = "png16" | "r16" | "r32" | "exr";
+
+// Row 0 is the top row, matching Heightfield (y = 0 at the top).
+export type HeightmapImage = {
+  width: number;
+  height: number;
+  data: Float32Array;
+  // true when data is already in [0, 1] (integer formats), false for raw floats.
+  normalized: boolean;
+};
+
+export type HeightRange = {
+  min: number;
+  max: number;
+};
+
+export type RawHeightmapOptions = {
+  width?: number; // default: inferred from the byte length
+  height?: number;
+  aspect?: number; // width / height to infer the size from, default 1
+};
+
+export const HEIGHTMAP_EXTENSIONS: Record<HeightmapFormat, string> = {
+  png16: ".png",
+  r16: ".r16",
+  r32: ".r32",
+  exr: ".exr",
+};
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+// Channels per PNG color type: gray, RGB, gray + alpha, RGBA.
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+export function detectHeightmapFormat(filename: string): HeightmapFormat | null {
+  const name = filename.toLowerCase();
+  if (name.endsWith(".png")) return "png16";
+  if (name.endsWith(".r16") || name.endsWith(".raw")) return "r16";
+  if (name.endsWith(".r32")) return "r32";
+  if (name.endsWith(".exr")) return "exr";
+  return null;
+}
+
+export async function decodeHeightmap(
+  buffer: ArrayBuffer,
+  format: HeightmapFormat,
+  rawOptions: RawHeightmapOptions = {},
+): Promise<HeightmapImage> {
+  switch (format) {
+    case "png16":
+      return decodePng(buffer);
+    case "r16":
+    case "r32":
+      return decodeRaw(buffer, format === "r16" ? 2 : 4, rawOptions);
+    case "exr":
+      return decodeExr(buffer);
+    default:
+      throw new Error(`Unsupported heightmap format: ${format}`);
+  }
+}
+
+// Integer formats are normalized over `range`; float formats store raw heights.
+export async function encodeHeightmap(
+  heightfield: Heightfield,
+  format: HeightmapFormat,
+  range: HeightRange = getHeightRange(heightfield.data),
+): Promise<ArrayBuffer> {
+  const { width, height, data } = heightfield;
+  switch (format) {
+    case "png16":
+      return encodePng16(width, height, normalizeTo16(data, range));
+    case "r16": {
+      const values = normalizeTo16(data, range);
+      const view = new DataView(new ArrayBuffer(values.length * 2));
+      values.forEach((v, i) => view.setUint16(i * 2, v, true));
+      return view.buffer;
+    }
+    case "r32": {
+      const view = new DataView(new ArrayBuffer(data.length * 4));
+      data.forEach((v, i) => view.setFloat32(i * 4, v, true));
+      return view.buffer;
+    }
+    case "exr":
+      return encodeExr(width, height, data);
+    default:
+      throw new Error(`Unsupported heightmap format: ${format}`);
+  }
+}
+
+// Resamples the image to the heightfield size and maps it into `range`.
+// Float images are first normalized over their own min/max.
+export function applyHeightmap(
+  heightfield: Heightfield,
+  image: HeightmapImage,
+  range: HeightRange,
+): void {
+  const resampled =
+    image.width === heightfield.width && image.height === heightfield.height
+      ? image.data
+      : resampleHeightData(
+          image.data,
+          image.width,
+          image.height,
+          heightfield.width,
+          heightfield.height,
+        );
+
+  const source = image.normalized
+    ? { min: 0, max: 1 }
+    : getHeightRange(resampled);
+  const sourceSpan = Math.max(1e-9, source.max - source.min);
+  const targetSpan = range.max - range.min;
+  for (let i = 0; i < resampled.length; i++) {
+    const t = (resampled[i] - source.min) / sourceSpan;
+    heightfield.data[i] = range.min + t * targetSpan;
+  }
+}
+
+export function getHeightRange(data: Float32Array): HeightRange {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    min = Math.min(min, data[i]);
+    max = Math.max(max, data[i]);
+  }
+  return data.length > 0 ? { min, max } : { min: 0, max: 0 };
+}
+
+function normalizeTo16(data: Float32Array, range: HeightRange): Uint16Array {
+  const span = Math.max(1e-9, range.max - range.min);
+  const out = new Uint16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const t = Math.min(1, Math.max(0, (data[i] - range.min) / span));
+    out[i] = Math.round(t * 65535);
+  }
+  return out;
+}
+
+function decodeRaw(
+  buffer: ArrayBuffer,
+  bytesPerSample: 2 | 4,
+  options: RawHeightmapOptions,
+): HeightmapImage {
+  const count = Math.floor(buffer.byteLength / bytesPerSample);
+  let { width, height } = options;
+  if (width && !height) height = Math.floor(count / width);
+  if (height && !width) width = Math.floor(count / height);
+  if (!width || !height) {
+    [width, height] = inferRawSize(count, options.aspect ?? 1);
+  }
+  if (width * height !== count || width < 2 || height < 2) {
+    throw new Error(
+      `RAW heightmap of ${buffer.byteLength} bytes is not ${width}x${height}`,
+    );
+  }
+
+  const view = new DataView(buffer);
+  const data = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    data[i] =
+      bytesPerSample === 2
+        ? view.getUint16(i * 2, true) / 65535
+        : view.getFloat32(i * 4, true);
+  }
+  return { width, height, data, normalized: bytesPerSample === 2 };
+}
+
+// The width x height = count split closest to the aspect ratio.
+function inferRawSize(count: number, aspect: number): [number, number] {
+  const side = Math.round(Math.sqrt(count));
+  let best: [number, number] = [side, side];
+  let bestError = Infinity;
+  const target = Math.log(Math.max(1e-6, aspect));
+  for (let d = 2; d * d <= count; d++) {
+    if (count % d !== 0) continue;
+    for (const [w, h] of [
+      [d, count / d],
+      [count / d, d],
+    ]) {
+      const error = Math.abs(Math.log(w / h) - target);
+      if (error < bestError) {
+        best = [w, h];
+        bestError = error;
+      }
+    }
+  }
+  return best;
+}
+
+function decodeExr(buffer: ArrayBuffer): HeightmapImage {
+  const loader = new EXRLoader();
+  loader.setDataType(FloatType);
+  loader.setOutputFormat(RedFormat);
+  const exr = loader.parse(buffer);
+  const source = exr.data as Float32Array;
+  const { width, height } = exr;
+
+  // EXRLoader returns rows bottom-up (texture order); flip to top-down.
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * width;
+    data.set(source.subarray(from, from + width), y * width);
+  }
+  return { width, height, data, normalized: false };
+}
+
+async function encodeExr(
+  width: number,
+  height: number,
+  heights: Float32Array,
+): Promise<ArrayBuffer> {
+  // EXRExporter only takes RGBA float textures (bottom-up); store the height in
+  // every colour channel so any viewer shows it as grayscale.
+  const rgba = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = (height - 1 - y) * width;
+    for (let x = 0; x < width; x++) {
+      const h = heights[y * width + x];
+      const o = (row + x) * 4;
+      rgba[o] = h;
+      rgba[o + 1] = h;
+      rgba[o + 2] = h;
+      rgba[o + 3] = 1;
+    }
+  }
+  const texture = new DataTexture(rgba, width, height, RGBAFormat, FloatType);
+  // ZIPS (one scanline per block): 16-line ZIP blocks lose the tail of the
+  // last partial block when read back by EXRLoader.
+  const bytes = await new EXRExporter().parse(texture, {
+    type: FloatType,
+    compression: ZIPS_COMPRESSION,
+  });
+  texture.dispose();
+  return bytes.buffer as ArrayBuffer;
+}
+
+async function decodePng(buffer: ArrayBuffer): Promise<HeightmapImage> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error("Interlaced PNG heightmaps are not supported");
+      }
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels || (bitDepth !== 8 && bitDepth !== 16)) {
+    throw new Error(
+      `Unsupported PNG (color type ${colorType}, ${bitDepth}-bit); use grayscale 8/16-bit`,
+    );
+  }
+
+  const raw = await inflate(concatBytes(idat));
+  const bytesPerPixel = (channels * bitDepth) / 8;
+  const stride = width * bytesPerPixel;
+  const pixels = unfilterScanlines(raw, height, stride, bytesPerPixel);
+
+  // Only the first channel is used: grayscale, or red for colour images.
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = y * stride + x * bytesPerPixel;
+      data[y * width + x] =
+        bitDepth === 16
+          ? ((pixels[o] << 8) | pixels[o + 1]) / 65535
+          : pixels[o] / 255;
+    }
+  }
+  return { width, height, data, normalized: true };
+}
+
+async function encodePng16(
+  width: number,
+  height: number,
+  values: Uint16Array,
+): Promise<ArrayBuffer> {
+  const stride = width * 2;
+  // Filter type 0 (None) on every row; big-endian samples as PNG requires.
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1);
+    raw[rowStart] = 0;
+    for (let x = 0; x < width; x++) {
+      const v = values[y * width + x];
+      raw[rowStart + 1 + x * 2] = v >> 8;
+      raw[rowStart + 2 + x * 2] = v & 0xff;
+    }
+  }
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 16; // bit depth
+  ihdr[9] = 0; // grayscale
+
+  const chunks = [
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", await deflate(raw.buffer)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  return concatBytes([new Uint8Array(PNG_SIGNATURE), ...chunks]);
+}
+
+function unfilterScanlines(
+  raw: Uint8Array,
+  height: number,
+  stride: number,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = y > 0 ? out[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[dst + i] = (raw[src + i] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// PNG uses zlib streams, which is what the "deflate" format produces.
+async function deflate(bytes: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(
+    new CompressionStream("deflate"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(bytes: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(
+    new DecompressionStream("deflate"),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concatBytes(parts: Uint8Array[]): ArrayBuffer {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out.buffer;
+}
@@ -0,0 +1,189 @@
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+
+export type SculptHistoryOptions = {
+  maxBytes?: number; // default: 64 MB of snapshots
+  tileSize?: number; // default: 32 texels
+};
+
+type TileSnapshot = {
+  tileX: number;
+  tileY: number;
+  before: Float32Array;
+  after: Float32Array;
+};
+
+type StrokeRecord = {
+  tiles: TileSnapshot[];
+  region: HeightfieldRegion;
+  bytes: number;
+};
+
+// Stroke-based undo/redo. Before a dab touches a tile for the first time in a
+// stroke the tile is copied, so each record only holds the regions it changed.
+export class SculptHistory {
+  private readonly heightfield: Heightfield;
+  private readonly maxBytes: number;
+  private readonly tileSize: number;
+  private readonly undoStack: StrokeRecord[] = [];
+  private readonly redoStack: StrokeRecord[] = [];
+  private pending: Map<number, Float32Array> | null = null;
+  private usedBytes = 0;
+
+  constructor(heightfield: Heightfield, options: SculptHistoryOptions = {}) {
+    this.heightfield = heightfield;
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.tileSize = Math.max(1, Math.floor(options.tileSize ?? 32));
+  }
+
+  get isRecording(): boolean {
+    return this.pending !== null;
+  }
+
+  beginStroke(): void {
+    this.pending = new Map();
+  }
+
+  // Call before modifying `region` during a stroke.
+  captureRegion(region: HeightfieldRegion): void {
+    if (!this.pending) return;
+    const size = this.tileSize;
+    const tilesX = Math.ceil(this.heightfield.width / size);
+    const minTileX = Math.floor(region.minX / size);
+    const maxTileX = Math.floor(region.maxX / size);
+    const minTileY = Math.floor(region.minY / size);
+    const maxTileY = Math.floor(region.maxY / size);
+    for (let ty = minTileY; ty <= maxTileY; ty++) {
+      for (let tx = minTileX; tx <= maxTileX; tx++) {
+        const key = ty * tilesX + tx;
+        if (this.pending.has(key)) continue;
+        this.pending.set(key, this.readTile(tx, ty));
+      }
+    }
+  }
+
+  // Returns the region changed by the stroke, or null if nothing was captured.
+  endStroke(): HeightfieldRegion | null {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending || pending.size === 0) return null;
+
+    const tilesX = Math.ceil(this.heightfield.width / this.tileSize);
+    const tiles: TileSnapshot[] = [];
+    let bytes = 0;
+    pending.forEach((before, key) => {
+      const tileX = key % tilesX;
+      const tileY = Math.floor(key / tilesX);
+      const after = this.readTile(tileX, tileY);
+      tiles.push({ tileX, tileY, before, after });
+      bytes += before.byteLength + after.byteLength;
+    });
+
+    const record: StrokeRecord = {
+      tiles,
+      region: this.getTilesRegion(tiles),
+      bytes,
+    };
+    this.undoStack.push(record);
+    this.usedBytes += bytes;
+    this.clearRedo();
+    this.trim();
+    return record.region;
+  }
+
+  undo(): HeightfieldRegion | null {
+    const record = this.undoStack.pop();
+    if (!record) return null;
+    for (const tile of record.tiles) {
+      this.writeTile(tile.tileX, tile.tileY, tile.before);
+    }
+    this.redoStack.push(record);
+    return record.region;
+  }
+
+  redo(): HeightfieldRegion | null {
+    const record = this.redoStack.pop();
+    if (!record) return null;
+    for (const tile of record.tiles) {
+      this.writeTile(tile.tileX, tile.tileY, tile.after);
+    }
+    this.undoStack.push(record);
+    return record.region;
+  }
+
+  clear(): void {
+    this.pending = null;
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.usedBytes = 0;
+  }
+
+  private clearRedo() {
+    for (const record of this.redoStack) {
+      this.usedBytes -= record.bytes;
+    }
+    this.redoStack.length = 0;
+  }
+
+  private trim() {
+    // Drop the oldest strokes first, but always keep the latest one.
+    while (this.usedBytes > this.maxBytes && this.undoStack.length > 1) {
+      const oldest = this.undoStack.shift()!;
+      this.usedBytes -= oldest.bytes;
+    }
+  }
+
+  private getTileBounds(tileX: number, tileY: number): HeightfieldRegion {
+    const size = this.tileSize;
+    return {
+      minX: tileX * size,
+      minY: tileY * size,
+      maxX: Math.min(this.heightfield.width - 1, (tileX + 1) * size - 1),
+      maxY: Math.min(this.heightfield.height - 1, (tileY + 1) * size - 1),
+    };
+  }
+
+  private getTilesRegion(tiles: TileSnapshot[]): HeightfieldRegion {
+    const region = {
+      minX: Infinity,
+      minY: Infinity,
+      maxX: -Infinity,
+      maxY: -Infinity,
+    };
+    for (const tile of tiles) {
+      const bounds = this.getTileBounds(tile.tileX, tile.tileY);
+      region.minX = Math.min(region.minX, bounds.minX);
+      region.minY = Math.min(region.minY, bounds.minY);
+      region.maxX = Math.max(region.maxX, bounds.maxX);
+      region.maxY = Math.max(region.maxY, bounds.maxY);
+    }
+    return region;
+  }
+
+  private readTile(tileX: number, tileY: number): Float32Array {
+    const bounds = this.getTileBounds(tileX, tileY);
+    const rowLength = bounds.maxX - bounds.minX + 1;
+    const out = new Float32Array(rowLength * (bounds.maxY - bounds.minY + 1));
+    const { data, width } = this.heightfield;
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      const start = y * width + bounds.minX;
+      out.set(
+        data.subarray(start, start + rowLength),
+        (y - bounds.minY) * rowLength,
+      );
+    }
+    return out;
+  }
+
+  private writeTile(tileX: number, tileY: number, values: Float32Array) {
+    const bounds = this.getTileBounds(tileX, tileY);
+    const rowLength = bounds.maxX - bounds.minX + 1;
+    const { data, width } = this.heightfield;
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      const offset = (y - bounds.minY) * rowLength;
+      data.set(
+        values.subarray(offset, offset + rowLength),
+        y * width + bounds.minX,
+      );
+    }
+  }
+}
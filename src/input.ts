@@ -1,5 +1,5 @@
 import {
-  Mesh,
+  Object3D,
   PerspectiveCamera,
   Raycaster,
   Vector2,
@@ -13,24 +13,26 @@ export type PickInfo = {
   buttons: number;
   ctrlKey: boolean;
   shiftKey: boolean;
+  event: PointerEvent;
 };
 
 export function setupInput(
   canvas: HTMLCanvasElement,
   camera: PerspectiveCamera,
-  terrainMesh: Mesh,
+  // Called on every event: the pickable terrain can change (streamed chunks).
+  getTargets: () => Object3D[],
   onPick: (info: PickInfo) => void,
 ) {
   const raycaster = new Raycaster();
   const pointer = new Vector2();
 
-  function handlePointer(event: MouseEvent) {
+  function handlePointer(event: PointerEvent) {
     const rect = canvas.getBoundingClientRect();
     pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
     raycaster.setFromCamera(pointer, camera);
-    const [hit] = raycaster.intersectObject(terrainMesh);
+    const [hit] = raycaster.intersectObjects(getTargets(), false);
     if (!hit || !hit.uv) return;
 
     onPick({
@@ -40,10 +42,20 @@ export function setupInput(
       buttons: event.buttons,
       ctrlKey: event.ctrlKey,
       shiftKey: event.shiftKey,
+      event,
     });
   }
 
-  canvas.addEventListener("mousemove", handlePointer);
-  canvas.addEventListener("mousedown", handlePointer);
+  // Pointer events carry pen pressure and tilt; coalesced samples keep fast
+  // strokes smooth even when the browser batches moves per frame.
+  canvas.addEventListener("pointermove", (event) => {
+    const samples = event.getCoalescedEvents?.() ?? [];
+    if (samples.length === 0) {
+      handlePointer(event);
+      return;
+    }
+    for (const sample of samples) handlePointer(sample);
+  });
+  canvas.addEventListener("pointerdown", handlePointer);
   canvas.addEventListener("contextmenu", (e) => e.preventDefault());
 }
@@ -0,0 +1,167 @@
+import { ErosionParams } from "./erosion";
+import {
+  GrassDensityData,
+  GrassDensityParams,
+  GrassScatter,
+} from "./grassData";
+import { NoiseGeneratorConfig } from "./noise";
+import { WaterData, WaterParams } from "./waterData";
+
+// CPU passes that run in a worker: inputs and outputs per job kind. Height
+// grids travel as transferred Float32Array buffers.
+export type JobInputs = {
+  heightfield: {
+    width: number;
+    height: number;
+    generator: NoiseGeneratorConfig;
+  };
+  erosion: {
+    width: number;
+    height: number;
+    data: Float32Array;
+    params: ErosionParams;
+  };
+  grass: {
+    width: number;
+    height: number;
+    data: Float32Array;
+    density: GrassDensityParams;
+    heightScale: number;
+    maxInstances: number;
+  };
+  water: {
+    width: number;
+    height: number;
+    data: Float32Array;
+    params: WaterParams;
+  };
+};
+
+export type JobOutputs = {
+  heightfield: { data: Float32Array };
+  erosion: { data: Float32Array };
+  grass: { density: GrassDensityData; scatters: GrassScatter[] };
+  water: { water: WaterData };
+};
+
+export type JobKind = keyof JobInputs;
+
+export type JobRequest<K extends JobKind = JobKind> = {
+  id: number;
+  kind: K;
+  input: JobInputs[K];
+};
+
+export type JobMessage =
+  | { type: "progress"; id: number; fraction: number }
+  | { type: "done"; id: number; output: JobOutputs[JobKind] }
+  | { type: "error"; id: number; message: string };
+
+export type JobOptions = {
+  // A new job on the same channel cancels the one still running there.
+  channel?: string;
+  onProgress?: (fraction: number) => void;
+  transfer?: Transferable[];
+};
+
+type RunningJob = {
+  id: number;
+  worker: Worker;
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+};
+
+// One worker per channel. Cancelling terminates the worker, so a stale job
+// stops using the CPU at once; the next job on the channel starts a new one.
+export class JobRunner {
+  private readonly workers = new Map<string, Worker>();
+  private readonly running = new Map<string, RunningJob>();
+  private nextId = 1;
+
+  run<K extends JobKind>(
+    kind: K,
+    input: JobInputs[K],
+    options: JobOptions = {},
+  ): Promise<JobOutputs[K] | null> {
+    const channel = options.channel ?? kind;
+    this.cancel(channel);
+
+    const worker = this.getWorker(channel);
+    const id = this.nextId++;
+    return new Promise<JobOutputs[K] | null>((resolve, reject) => {
+      this.running.set(channel, {
+        id,
+        worker,
+        resolve: resolve as (output: unknown) => void,
+        reject,
+        onProgress: options.onProgress,
+      });
+      const request: JobRequest<K> = { id, kind, input };
+      worker.postMessage(request, { transfer: options.transfer ?? [] });
+    });
+  }
+
+  // Stale jobs resolve with null.
+  cancel(channel: string): void {
+    const job = this.running.get(channel);
+    if (!job) return;
+    this.running.delete(channel);
+    job.worker.terminate();
+    this.workers.delete(channel);
+    job.resolve(null);
+  }
+
+  isRunning(channel: string): boolean {
+    return this.running.has(channel);
+  }
+
+  dispose(): void {
+    for (const channel of Array.from(this.running.keys())) {
+      this.cancel(channel);
+    }
+    for (const worker of this.workers.values()) worker.terminate();
+    this.workers.clear();
+  }
+
+  private getWorker(channel: string): Worker {
+    const existing = this.workers.get(channel);
+    if (existing) return existing;
+    const worker = new Worker(new URL("./jobs.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<JobMessage>) => {
+      this.handleMessage(channel, event.data);
+    };
+    // A worker that failed to load or died is dropped: the next job on the
+    // channel starts a fresh one.
+    worker.onerror = (event) => {
+      worker.terminate();
+      if (this.workers.get(channel) === worker) this.workers.delete(channel);
+      const job = this.running.get(channel);
+      if (!job || job.worker !== worker) return;
+      this.running.delete(channel);
+      job.reject(new Error(event.message || "Worker failed"));
+    };
+    this.workers.set(channel, worker);
+    return worker;
+  }
+
+  private handleMessage(channel: string, message: JobMessage) {
+    const job = this.running.get(channel);
+    if (!job || job.id !== message.id) return;
+    switch (message.type) {
+      case "progress":
+        job.onProgress?.(message.fraction);
+        break;
+      case "done":
+        this.running.delete(channel);
+        job.resolve(message.output);
+        break;
+      case "error":
+        this.running.delete(channel);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { runErosion } from "./erosion";
+import {
+  computeGrassDensityData,
+  GrassScatter,
+  scatterGrassSpecies,
+} from "./grassData";
+import { Heightfield } from "./heightfield";
+import { JobInputs, JobKind, JobMessage, JobOutputs, JobRequest } from "./jobs";
+import { createNoiseGenerator } from "./noise";
+import { computeWaterData } from "./waterData";
+
+// Progress messages are throttled: a few per second are plenty for a status
+// line.
+const PROGRESS_INTERVAL_MS = 100;
+
+self.onmessage = (event: MessageEvent<JobRequest>) => {
+  const { id, kind, input } = event.data;
+  runJob(id, kind, input)
+    .then(({ output, transfer }) => {
+      post({ type: "done", id, output }, transfer);
+    })
+    .catch((error) => {
+      post({
+        type: "error",
+        id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    });
+};
+
+async function runJob(
+  id: number,
+  kind: JobKind,
+  input: JobInputs[JobKind],
+): Promise<{ output: JobOutputs[JobKind]; transfer: Transferable[] }> {
+  const onProgress = createProgressReporter(id);
+  switch (kind) {
+    case "heightfield": {
+      const { width, height, generator } = input as JobInputs["heightfield"];
+      const sample = createNoiseGenerator(generator);
+      const data = new Float32Array(width * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          data[y * width + x] = sample(x, y);
+        }
+        onProgress((y + 1) / height);
+      }
+      return { output: { data }, transfer: [data.buffer] };
+    }
+    case "erosion": {
+      const { width, height, data, params } = input as JobInputs["erosion"];
+      const heightfield = createHeightfield(width, height, data);
+      await runErosion(heightfield, params, onProgress);
+      return {
+        output: { data: heightfield.data },
+        transfer: [heightfield.data.buffer],
+      };
+    }
+    case "grass": {
+      const grass = input as JobInputs["grass"];
+      const heightfield = createHeightfield(
+        grass.width,
+        grass.height,
+        grass.data,
+      );
+      // Density takes about as long as the scatter.
+      const density = computeGrassDensityData(
+        heightfield,
+        grass.density,
+        (fraction) => onProgress(fraction * 0.5),
+      );
+      const scatters = scatterGrassSpecies(
+        heightfield,
+        density,
+        { heightScale: grass.heightScale, maxInstances: grass.maxInstances },
+        (fraction) => onProgress(0.5 + fraction * 0.5),
+      );
+      return {
+        output: { density, scatters },
+        transfer: [
+          density.data.buffer,
+          ...density.species.map((layer) => layer.data.buffer),
+          ...scatters.flatMap(getScatterBuffers),
+        ],
+      };
+    }
+    case "water": {
+      const { width, height, data, params } = input as JobInputs["water"];
+      const water = computeWaterData(
+        createHeightfield(width, height, data),
+        params,
+      );
+      return {
+        output: { water },
+        transfer: [
+          water.kind.buffer,
+          water.surface.buffer,
+          water.depth.buffer,
+          water.flow.buffer,
+        ],
+      };
+    }
+  }
+}
+
+function createHeightfield(width: number, height: number, data: Float32Array) {
+  const heightfield = new Heightfield(width, height);
+  heightfield.data.set(data);
+  return heightfield;
+}
+
+function getScatterBuffers(scatter: GrassScatter): ArrayBuffer[] {
+  const { source } = scatter;
+  return [
+    source.matrices,
+    source.phase,
+    source.stiffness,
+    source.colorFactor,
+    source.heightFactor,
+  ].map((array) => array.buffer as ArrayBuffer);
+}
+
+function createProgressReporter(id: number) {
+  let last = 0;
+  return (fraction: number) => {
+    const now = performance.now();
+    if (fraction < 1 && now - last < PROGRESS_INTERVAL_MS) return;
+    last = now;
+    post({ type: "progress", id, fraction });
+  };
+}
+
+function post(message: JobMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
@@ -0,0 +1,126 @@
+import { HeightfieldRegion, resampleHeightData } from "./heightfield";
+import { evaluateFalloff, SculptBrushConfig } from "./sculpt";
+
+// Hand-painted layer weights on top of the height/slope rules. One plane of
+// width * height floats per layer; in every texel the painted weights sum to
+// at most 1 and the rest is left to the rules.
+export type LayerPaintMap = {
+  width: number;
+  height: number;
+  weights: Float32Array; // LAYER_PAINT_CHANNELS planes, row 0 first
+};
+
+// Same as the biome splat map: one RGBA texel.
+export const LAYER_PAINT_CHANNELS = 4;
+
+const paintedScratch = new Float32Array(LAYER_PAINT_CHANNELS);
+
+export function createLayerPaintMap(
+  width: number,
+  height: number,
+): LayerPaintMap {
+  return {
+    width,
+    height,
+    weights: new Float32Array(width * height * LAYER_PAINT_CHANNELS),
+  };
+}
+
+// Pulls the texels under the brush towards `layer` (or, erasing, back to the
+// rules). Radius, intensity, falloff and flow mean what they do for sculpting;
+// the mode is ignored.
+export function applyLayerBrush(
+  map: LayerPaintMap,
+  centerX: number,
+  centerY: number,
+  layer: number,
+  config: SculptBrushConfig,
+  erase = false,
+): HeightfieldRegion {
+  const { width, height, weights } = map;
+  const { radius } = config;
+  const region = {
+    minX: Math.max(0, Math.floor(centerX - radius)),
+    minY: Math.max(0, Math.floor(centerY - radius)),
+    maxX: Math.min(width - 1, Math.ceil(centerX + radius)),
+    maxY: Math.min(height - 1, Math.ceil(centerY + radius)),
+  };
+  if (layer < 0 || layer >= LAYER_PAINT_CHANNELS) return region;
+
+  const plane = width * height;
+  // Like the blend-towards-target sculpt modes: full coverage in a few dabs.
+  const amount = Math.min(1, config.intensity * 4 * (config.flow ?? 1));
+  for (let y = region.minY; y <= region.maxY; y++) {
+    for (let x = region.minX; x <= region.maxX; x++) {
+      const dx = x - centerX;
+      const dy = y - centerY;
+      const t = Math.sqrt(dx * dx + dy * dy) / radius;
+      if (t > 1) continue;
+      const k =
+        amount * evaluateFalloff(t, config.falloff, config.falloffCurve);
+      const index = y * width + x;
+      for (let c = 0; c < LAYER_PAINT_CHANNELS; c++) {
+        const i = c * plane + index;
+        const target = !erase && c === layer ? 1 : 0;
+        weights[i] += (target - weights[i]) * k;
+      }
+    }
+  }
+  return region;
+}
+
+// Painted weights of one texel into `out`; returns their sum.
+export function getPaintedWeights(
+  map: LayerPaintMap,
+  index: number,
+  out: Float32Array,
+): number {
+  const plane = map.width * map.height;
+  let painted = 0;
+  for (let c = 0; c < LAYER_PAINT_CHANNELS; c++) {
+    out[c] = map.weights[c * plane + index];
+    painted += out[c];
+  }
+  return painted;
+}
+
+// Mixes the painted weights of a texel into weights computed by the rules
+// (normalized, one per layer), in place.
+export function applyPaintedWeights(
+  map: LayerPaintMap,
+  index: number,
+  out: Float32Array,
+): void {
+  const painted = getPaintedWeights(map, index, paintedScratch);
+  if (painted <= 0) return;
+  const rules = Math.max(0, 1 - painted);
+  for (let c = 0; c < LAYER_PAINT_CHANNELS; c++) {
+    out[c] = out[c] * rules + paintedScratch[c];
+  }
+}
+
+// Loaded worlds may come from a heightfield of another size.
+export function loadLayerPaint(
+  map: LayerPaintMap,
+  weights: Float32Array,
+  width: number,
+  height: number,
+): void {
+  const plane = map.width * map.height;
+  if (weights.length !== width * height * LAYER_PAINT_CHANNELS) {
+    map.weights.fill(0);
+    return;
+  }
+  for (let c = 0; c < LAYER_PAINT_CHANNELS; c++) {
+    const source = weights.subarray(
+      c * width * height,
+      (c + 1) * width * height,
+    );
+    map.weights.set(
+      width === map.width && height === map.height
+        ? source
+        : resampleHeightData(source, width, height, map.width, map.height),
+      c * plane,
+    );
+  }
+}
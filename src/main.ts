@@ -1,33 +1,108 @@
 import {
-  AmbientLight,
   Color,
-  DirectionalLight,
-  InstancedMesh,
   BufferAttribute,
   BufferGeometry,
   Float32BufferAttribute,
-  Line,
   LineBasicMaterial,
+  LineSegments,
   PerspectiveCamera,
   Scene,
+  Texture,
+  Vector3,
 } from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { WebGPURenderer } from "three/webgpu";
-import { Heightfield } from "./heightfield";
 import {
-  createGrassDensityMap,
+  Heightfield,
+  HeightfieldRegion,
+  mergeRegions,
+  resampleHeightData,
+} from "./heightfield";
+import { NoiseGeneratorConfig } from "./noise";
+import { BiomeParams, BiomeTextureKind, TerrainBiomes } from "./biomes";
+import {
+  createGrassDensityTexture,
+  createGrassMeshes,
   GrassDensityMap,
-  createGrassInstancedMesh,
+  updateGrassLighting,
+  updateGrassTrample,
   updateGrassWind,
-  GrassLodContext,
+  updateGrassLod,
+  GrassInstanceResult,
+  updateGrassDensityRegion,
+  updateGrassPatches,
 } from "./grass";
+import {
+  applyGrassMaskBrush,
+  createGrassDensityMask,
+  GrassDensityParams,
+  GrassScatter,
+  loadGrassDensityMask,
+} from "./grassData";
+import { GRASS_SPECIES } from "./grassSpecies";
+import { JobRunner } from "./jobs";
+import {
+  applyLayerBrush,
+  createLayerPaintMap,
+  loadLayerPaint,
+} from "./layerPaint";
 import {
   createTerrain,
+  TerrainColorParams,
   updateTerrainGeometryFromHeightfield,
   updateTerrainVertexColors,
 } from "./terrain";
 import { setupInput } from "./input";
-import { applyBrush, SculptBrushConfig } from "./sculpt";
+import {
+  applyBrush,
+  BrushStamp,
+  createDefaultStamp,
+  evaluateFalloff,
+  getSculptRegion,
+  SculptBrushConfig,
+} from "./sculpt";
+import { SculptHistory } from "./history";
+import {
+  createTreeMesh,
+  eraseTrees,
+  paintTrees,
+  TreeInstance,
+  updateTreeMesh,
+} from "./trees";
+import {
+  applyHeightmap,
+  decodeHeightmap,
+  detectHeightmapFormat,
+  encodeHeightmap,
+  getHeightRange,
+  HEIGHTMAP_EXTENSIONS,
+  RawHeightmapOptions,
+} from "./heightmap";
+import { exportTerrainMesh, MESH_EXPORT_EXTENSIONS } from "./exporter";
+import {
+  decodeProject,
+  encodeProject,
+  PROJECT_FILE_EXTENSION,
+} from "./project";
+import { ChunkManager, ChunkShading } from "./chunks";
+import { TerrainLod } from "./terrainLod";
+import {
+  DEFAULT_SHADOW_SETTINGS,
+  DEFAULT_SKY_PARAMS,
+  ShadowSettings,
+  SkyParams,
+  SkySystem,
+} from "./sky";
+import { TrampleActor, TrampleMap } from "./trample";
+import { DEFAULT_WIND_PARAMS, WindField, WindParams } from "./wind";
+import { DEFAULT_WATER_LOOK, WaterSurface } from "./water";
+import { computeWaterData, WaterData, WaterParams } from "./waterData";
+import {
+  readPointerPressure,
+  StrokeDab,
+  StrokeEngine,
+  StrokeOptions,
+} from "./stroke";
 import * as ui from "./ui";
 
 const canvas = document.querySelector<HTMLCanvasElement>("#gfx");
@@ -62,13 +137,10 @@ const renderer = new WebGPURenderer({
 renderer.setPixelRatio(window.devicePixelRatio);
 renderer.setSize(window.innerWidth, window.innerHeight);
 renderer.setClearColor(new Color(0x000000));
+renderer.shadowMap.enabled = true;
 
-const ambientLight = new AmbientLight(0xffffff, 0.5);
-scene.add(ambientLight);
-
-const directionalLight = new DirectionalLight(0xffffff, 0.8);
-directionalLight.position.set(10, 20, 10);
-scene.add(directionalLight);
+// Sky dome, sun, ambient light and fog, all following the time of day.
+const skySystem = new SkySystem(scene);
 
 const controls = new OrbitControls(camera, renderer.domElement);
 controls.enableDamping = true;
@@ -81,11 +153,18 @@ const fpsDisplay = document.getElementById("fps-counter");
 let fpsWindowStart = performance.now();
 let fpsFrameCount = 0;
 
-const brushConfig: SculptBrushConfig = {
-  radius: 10,
-  intensity: 0.12,
-  mode: "raise",
+// Picked at the first dab of a stroke: flatten target and ramp start.
+type StrokeAnchor = {
+  x: number;
+  y: number;
+  height: number;
+  worldX: number;
+  worldZ: number;
 };
+let strokeAnchor: StrokeAnchor | null = null;
+let strokeSecondary = false;
+const strokeEngine = new StrokeEngine(getStrokeOptions(ui.getState()));
+let brushStamp: BrushStamp = createDefaultStamp();
 
 let ctrlActive = false;
 window.addEventListener("keydown", (event) => {
@@ -93,12 +172,27 @@ window.addEventListener("keydown", (event) => {
     ctrlActive = true;
     controls.enabled = false;
   }
+  if (!event.ctrlKey || event.target instanceof HTMLInputElement) return;
+  // History only covers the fixed world.
+  if (isStreaming()) return;
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    const region = sculptHistory.undo();
+    if (region) refreshAfterHistoryChange(region);
+  } else if ((key === "z" && event.shiftKey) || key === "y") {
+    event.preventDefault();
+    const region = sculptHistory.redo();
+    if (region) refreshAfterHistoryChange(region);
+  }
 });
 
 window.addEventListener("keyup", (event) => {
   if (event.key === "Control") {
     ctrlActive = false;
     controls.enabled = true;
+    // The camera moves again: a resting pen must not keep sculpting.
+    endSculpting();
   }
 });
 
@@ -107,33 +201,104 @@ window.addEventListener("blur", () => {
   controls.enabled = true;
 });
 
+// Heavy CPU passes run in workers. Generation and erosion share a channel:
+// both rewrite the heights, so the newest one wins.
+const jobs = new JobRunner();
+const WORLD_JOB = "world";
+
+let generatorConfig = getGeneratorConfig(ui.getState());
 const heightfield = new Heightfield(256, 256, {
-  useSimpleNoise: true,
-  noiseAmplitude: 1.2,
-  noiseFrequency: 0.08,
+  generator: generatorConfig,
 });
 
+const sculptHistory = new SculptHistory(heightfield);
+// Layers painted with the "layer-paint" tool, saved with the world.
+const layerPaint = createLayerPaintMap(heightfield.width, heightfield.height);
+// Painted grass density multiplier, also saved with the world.
+const grassMask = createGrassDensityMask(heightfield.width, heightfield.height);
+
 const heightScale = 2.5;
 const terrainMesh = createTerrain(heightfield, heightScale);
+const terrainColorMaterial = terrainMesh.material;
+// Splat-mapped biome material, created when textures are first enabled.
+let terrainBiomes: TerrainBiomes | null = null;
 let grassDensity: GrassDensityMap | null = null;
-let grassMesh: InstancedMesh | null = null;
-let grassLodContext: GrassLodContext | null = null;
+// One instanced batch per entry of GRASS_SPECIES.
+let grassBatches: GrassInstanceResult[] = [];
+const trees: TreeInstance[] = [];
+const treeMesh = createTreeMesh();
+// Sea, lakes and rivers of the fixed world; grass and trees stay out of them.
+const waterSurface = new WaterSurface();
+let waterData: WaterData | null = null;
+let waterKey = "";
+// UI settings the terrain colours and the grass were last built with.
+let terrainKey = "";
+let grassKey = "";
+// Grass to regenerate once the water being flooded in the worker is in.
+let waterGrassRegion: HeightfieldRegion | null = null;
 scene.add(terrainMesh);
+scene.add(treeMesh);
+scene.add(waterSurface.mesh);
 refreshTerrain();
+refreshWater();
 refreshGrassDensity();
 
+// Streaming mode: chunks generated around the orbit target replace the fixed
+// 256x256 world, which stays in memory but hidden. Created on first use.
+let chunkManager: ChunkManager | null = null;
+// Quadtree LOD replacement for terrainMesh in the fixed world.
+let terrainLod: TerrainLod | null = null;
+applyWorldMode();
+
 let isSculpting = false;
 let grassUpdatePending = false;
+// Texels sculpted during the current stroke, for the grass update at its end.
+let strokeRegion: HeightfieldRegion | null = null;
+// Shared wind: the grass samples its texture, anything else can sample() it.
+const windField = new WindField();
+// Grass pushed aside around the orbit target by the camera and the cursor.
+const trampleMap = new TrampleMap();
+let cursorPosition: { x: number; z: number } | null = null;
 let pausedWindDurationMs = 0;
 let windPauseStart: number | null = null;
 
 ui.subscribe(() => {
-  refreshTerrain();
-  refreshGrassDensity();
+  const nextGenerator = getGeneratorConfig(ui.getState());
+  if (
+    nextGenerator.seed !== generatorConfig.seed ||
+    nextGenerator.type !== generatorConfig.type ||
+    nextGenerator.octaves !== generatorConfig.octaves ||
+    nextGenerator.lacunarity !== generatorConfig.lacunarity ||
+    nextGenerator.gain !== generatorConfig.gain
+  ) {
+    generatorConfig = nextGenerator;
+    sculptHistory.clear();
+    chunkManager?.setGenerator(generatorConfig);
+    regenerateWorld().catch((error) => {
+      console.error("World generation failed", error);
+    });
+  }
+  applyWorldMode();
+  if (chunkManager && isStreaming()) {
+    chunkManager.setShading(getChunkShading(ui.getState()));
+    return;
+  }
+  // Brush, erosion and export settings leave the world as it is.
+  const uiState = ui.getState();
+  if (getTerrainKey(uiState) !== terrainKey) refreshTerrain();
+  const waterChanged = getWaterKey(uiState) !== waterKey;
+  if (waterChanged) refreshWater();
+  if (waterChanged || getGrassKey(uiState) !== grassKey) {
+    grassKey = getGrassKey(uiState);
+    // The new heights bring their own grass.
+    if (!jobs.isRunning(WORLD_JOB)) refreshGrassDensity();
+  }
 });
 
-setupInput(canvas, camera, terrainMesh, ({ uv, buttons, ctrlKey }) => {
-  updateBrushIndicator(uv);
+setupInput(canvas, camera, getPickTargets, (info) => {
+  const { worldPosition, uv, buttons, ctrlKey, event } = info;
+  updateBrushIndicator(worldPosition.x, worldPosition.z);
+  cursorPosition = { x: worldPosition.x, z: worldPosition.z };
 
   // Sculpt only when CTRL is held with a mouse button.
   if (!ctrlKey && !ctrlActive) return;
@@ -141,43 +306,125 @@ setupInput(canvas, camera, terrainMesh, ({ uv, buttons, ctrlKey }) => {
   const isSecondary = (buttons & 2) !== 0;
   if (!isPrimary && !isSecondary) return;
 
-  // Map uv (0..1) to heightfield grid indices; clamp edges to avoid overflow.
-  const xIndex = clampIndex(
-    Math.floor(uv.x * (heightfield.width - 1)),
-    0,
-    heightfield.width - 1,
-  );
+  // Brush space: heightfield texels in the fixed world, global vertices when
+  // streaming chunks.
+  const streaming = chunkManager !== null && isStreaming();
   // V is flipped: uv.y=0 is top; heightfield y=0 is top, so invert to map correctly.
-  const yIndex = clampIndex(
-    Math.floor((1 - uv.y) * (heightfield.height - 1)),
-    0,
-    heightfield.height - 1,
-  );
+  const brushX = streaming
+    ? worldPosition.x
+    : clamp(uv.x, 0, 1) * (heightfield.width - 1);
+  const brushY = streaming
+    ? worldPosition.z
+    : clamp(1 - uv.y, 0, 1) * (heightfield.height - 1);
+
+  // Heights are about to be replaced by a running generation or erosion.
+  if (!streaming && jobs.isRunning(WORLD_JOB)) return;
 
   const uiState = ui.getState();
-  brushConfig.radius = uiState.brushRadius;
-  brushConfig.intensity = uiState.brushIntensity;
-  let mode: SculptBrushConfig["mode"] = uiState.brushMode;
-  if (mode !== "smooth") {
-    mode = isSecondary ? "lower" : "raise";
+  if (uiState.toolMode === "tree-paint") {
+    if (!requireFixedWorld("Tree painting")) return;
+    paintTreesAt(Math.floor(brushX), Math.floor(brushY), isSecondary);
+    return;
   }
+  const painting =
+    uiState.toolMode === "layer-paint" || uiState.toolMode === "grass-paint";
+  if (painting && !requireFixedWorld("Painting")) return;
 
+  const { pressure, tilt } = readPointerPressure(event);
+  const sample = {
+    x: brushX,
+    y: brushY,
+    time: event.timeStamp,
+    pressure,
+    tilt,
+  };
+  const height = getBrushHeight(brushX, brushY);
+  let dabs: StrokeDab[];
   if (!isSculpting) {
     isSculpting = true;
     grassUpdatePending = false;
+    strokeRegion = null;
     windPauseStart = performance.now();
+    strokeSecondary = isSecondary;
+    if (!streaming) sculptHistory.beginStroke();
+    strokeAnchor = {
+      x: brushX,
+      y: brushY,
+      height,
+      worldX: worldPosition.x,
+      worldZ: worldPosition.z,
+    };
+    strokeEngine.setOptions(getStrokeOptions(uiState));
+    dabs = strokeEngine.begin(sample);
+  } else {
+    dabs = strokeEngine.addSample(sample, uiState.brushRadius);
   }
+  applyDabs(dabs);
 
-  applyBrush(heightfield, xIndex, yIndex, { ...brushConfig, mode });
-  refreshTerrain();
-  grassUpdatePending = true;
-
-  const height = heightfield.getHeight(xIndex, yIndex);
   console.log(
-    `Pick -> x: ${xIndex}, y: ${yIndex}, height: ${height.toFixed(3)}, mode: ${mode}`,
+    `Pick -> x: ${brushX.toFixed(1)}, y: ${brushY.toFixed(1)}, height: ${height.toFixed(3)}, dabs: ${dabs.length}`,
   );
 });
 
+let erosionRunning = false;
+ui.onButtonClick("run-erosion", () => {
+  erodeTerrain().catch((error) => {
+    console.error("Erosion failed", error);
+  });
+});
+
+ui.onButtonClick("save-world", () => {
+  saveWorld();
+});
+ui.onButtonClick("load-world", () => {
+  loadWorld().catch((error) => {
+    console.error("Failed to load world", error);
+    ui.setStatus(
+      `Load failed: ${error instanceof Error ? error.message : error}`,
+    );
+  });
+});
+
+ui.onButtonClick("import-heightmap", () => {
+  importHeightmap().catch((error) => {
+    console.error("Failed to import heightmap", error);
+    ui.setStatus(
+      `Import failed: ${error instanceof Error ? error.message : error}`,
+    );
+  });
+});
+ui.onButtonClick("export-heightmap", () => {
+  exportHeightmap().catch((error) => {
+    console.error("Failed to export heightmap", error);
+  });
+});
+
+for (const kind of ["albedo", "normal", "roughness"] as const) {
+  ui.onButtonClick(`load-biome-${kind}`, () => {
+    loadBiomeTexture(kind).catch((error) => {
+      console.error("Failed to load layer texture", error);
+      ui.setStatus(
+        `Texture failed: ${error instanceof Error ? error.message : error}`,
+      );
+    });
+  });
+}
+
+ui.onButtonClick("load-stamp", () => {
+  loadStamp().catch((error) => {
+    console.error("Failed to load stamp", error);
+    ui.setStatus(
+      `Stamp failed: ${error instanceof Error ? error.message : error}`,
+    );
+  });
+});
+
+ui.onButtonClick("export-mesh", () => {
+  exportMesh().catch((error) => {
+    console.error("Failed to export mesh", error);
+  });
+});
+
 const endSculpting = () => {
   if (!isSculpting) return;
   isSculpting = false;
@@ -185,65 +432,902 @@ const endSculpting = () => {
     pausedWindDurationMs += performance.now() - windPauseStart;
     windPauseStart = null;
   }
+  strokeEngine.end();
+  const heightsChanged = sculptHistory.endStroke();
+  strokeAnchor = null;
+  let grassRegion: HeightfieldRegion | null = null;
   if (grassUpdatePending) {
-    refreshGrassDensity();
+    if (chunkManager && isStreaming()) {
+      chunkManager.refreshGrass();
+    } else {
+      grassRegion = strokeRegion;
+    }
     grassUpdatePending = false;
+    strokeRegion = null;
+  }
+  if (heightsChanged) {
+    refreshWaterInBackground(grassRegion);
+  } else if (grassRegion) {
+    refreshGrassRegion(grassRegion);
   }
 };
 
-window.addEventListener("mouseup", endSculpting);
+window.addEventListener("pointerup", endSculpting);
+window.addEventListener("pointercancel", endSculpting);
 window.addEventListener("blur", endSculpting);
 
-function refreshTerrain() {
+async function erodeTerrain() {
+  if (erosionRunning || !requireFixedWorld("Erosion")) return;
+  if (jobs.isRunning(WORLD_JOB)) {
+    ui.setStatus("Erosion: wait for the world generation to finish");
+    return;
+  }
+  erosionRunning = true;
+  const uiState = ui.getState();
+  const data = heightfield.data.slice();
+  let output: { data: Float32Array } | null;
+  try {
+    output = await jobs.run(
+      "erosion",
+      {
+        width: heightfield.width,
+        height: heightfield.height,
+        data,
+        params: {
+          hydraulic: { droplets: uiState.erosionDroplets, seed: uiState.seed },
+          thermal:
+            uiState.thermalIterations > 0
+              ? { iterations: uiState.thermalIterations, talus: 0.02 }
+              : undefined,
+        },
+      },
+      {
+        channel: WORLD_JOB,
+        transfer: [data.buffer],
+        onProgress: (fraction) => ui.setProgress("Erosion", fraction),
+      },
+    );
+  } finally {
+    ui.setProgress("Erosion", null);
+    erosionRunning = false;
+  }
+  // Superseded by a load, an import or a new world.
+  if (!output) return;
+
+  sculptHistory.beginStroke();
+  sculptHistory.captureRegion({
+    minX: 0,
+    minY: 0,
+    maxX: heightfield.width - 1,
+    maxY: heightfield.height - 1,
+  });
+  heightfield.data.set(output.data);
+  sculptHistory.endStroke();
+  refreshTerrain();
+  refreshWater();
+  refreshGrassDensity();
+  ui.setStatus("Erosion done");
+}
+
+async function regenerateWorld() {
+  let output: { data: Float32Array } | null;
+  try {
+    output = await jobs.run(
+      "heightfield",
+      {
+        width: heightfield.width,
+        height: heightfield.height,
+        generator: generatorConfig,
+      },
+      {
+        channel: WORLD_JOB,
+        onProgress: (fraction) => ui.setProgress("World", fraction),
+      },
+    );
+  } finally {
+    ui.setProgress("World", null);
+  }
+  if (!output) return;
+  heightfield.data.set(output.data);
+  sculptHistory.clear();
+  refreshTerrain();
+  refreshWater();
+  refreshGrassDensity();
+}
+
+function saveWorld() {
+  if (!requireFixedWorld("Saving")) return;
+  const buffer = encodeProject({
+    width: heightfield.width,
+    height: heightfield.height,
+    heights: heightfield.data,
+    heightScale,
+    generator: generatorConfig,
+    ui: ui.getState(),
+    camera: {
+      position: camera.position.toArray(),
+      target: controls.target.toArray(),
+    },
+    trees,
+    // Unpainted worlds don't carry four empty planes.
+    layers: layerPaint.weights.some((weight) => weight > 0)
+      ? layerPaint.weights
+      : new Float32Array(0),
+    grassMask: grassMask.data.some((value) => value !== 1)
+      ? grassMask.data
+      : new Float32Array(0),
+  });
+  ui.downloadFile(
+    buffer,
+    `world-${generatorConfig.seed}${PROJECT_FILE_EXTENSION}`,
+  );
+  ui.setStatus("World saved");
+}
+
+async function loadWorld() {
+  if (!requireFixedWorld("Loading")) return;
+  const file = await ui.pickFile(PROJECT_FILE_EXTENSION);
+  if (!file) return;
+  const project = decodeProject(await file.arrayBuffer());
+
+  const heights =
+    project.width === heightfield.width && project.height === heightfield.height
+      ? project.heights
+      : resampleHeightData(
+          project.heights,
+          project.width,
+          project.height,
+          heightfield.width,
+          heightfield.height,
+        );
+  jobs.cancel(WORLD_JOB);
+  // Keep heights in the loaded world's scale even if ours differs.
+  const scale = project.heightScale / heightScale;
+  for (let i = 0; i < heights.length; i++) {
+    heightfield.data[i] = heights[i] * scale;
+  }
+  sculptHistory.clear();
+  trees.length = 0;
+  // Tree positions are in texels of the saved heightfield.
+  const treeScaleX = (heightfield.width - 1) / Math.max(1, project.width - 1);
+  const treeScaleY = (heightfield.height - 1) / Math.max(1, project.height - 1);
+  for (const tree of project.trees) {
+    trees.push({ ...tree, x: tree.x * treeScaleX, y: tree.y * treeScaleY });
+  }
+  loadLayerPaint(layerPaint, project.layers, project.width, project.height);
+  loadGrassDensityMask(
+    grassMask,
+    project.grassMask,
+    project.width,
+    project.height,
+  );
+
+  // Set the generator first so the UI change below doesn't regenerate heights.
+  generatorConfig = project.generator;
+  camera.position.fromArray(project.camera.position);
+  controls.target.fromArray(project.camera.target);
+  controls.update();
+  // Before the UI change below rebuilds the grass around it.
+  refreshWater();
+  // New heights and paint: the UI change below rebuilds terrain and grass
+  // even if the settings are the same.
+  terrainKey = "";
+  grassKey = "";
+  // Older worlds only have the fractal settings in their generator.
+  ui.setState({
+    ...project.ui,
+    octaves: project.generator.octaves ?? 5,
+    lacunarity: project.generator.lacunarity ?? 2,
+    gain: project.generator.gain ?? 0.5,
+  });
+  ui.setStatus(`Loaded ${file.name}`);
+}
+
+async function importHeightmap() {
+  if (!requireFixedWorld("Heightmap import")) return;
+  const file = await ui.pickFile(".png,.r16,.raw,.r32,.exr");
+  if (!file) return;
+  const uiState = ui.getState();
+  const format = detectHeightmapFormat(file.name) ?? uiState.heightmapFormat;
+  const image = await decodeHeightmap(await file.arrayBuffer(), format, {
+    ...getRawHeightmapOptions(uiState),
+    aspect: heightfield.width / heightfield.height,
+  });
+
+  jobs.cancel(WORLD_JOB);
+  sculptHistory.beginStroke();
+  sculptHistory.captureRegion({
+    minX: 0,
+    minY: 0,
+    maxX: heightfield.width - 1,
+    maxY: heightfield.height - 1,
+  });
+  applyHeightmap(heightfield, image, {
+    min: uiState.importHeightMin,
+    max: uiState.importHeightMax,
+  });
+  sculptHistory.endStroke();
+
+  refreshTerrain();
+  refreshWater();
+  refreshGrassDensity();
+  ui.setStatus(`Imported ${file.name} (${image.width}x${image.height})`);
+}
+
+async function exportHeightmap() {
+  if (!requireFixedWorld("Heightmap export")) return;
+  const format = ui.getState().heightmapFormat;
+  const range = getHeightRange(heightfield.data);
+  const buffer = await encodeHeightmap(heightfield, format, range);
+  ui.downloadFile(
+    buffer,
+    `heightmap-${generatorConfig.seed}${HEIGHTMAP_EXTENSIONS[format]}`,
+  );
+  ui.setStatus(
+    `Exported heightmap, range ${range.min.toFixed(3)} .. ${range.max.toFixed(3)}`,
+  );
+}
+
+async function exportMesh() {
+  if (!requireFixedWorld("Mesh export")) return;
+  const uiState = ui.getState();
+  const format = uiState.meshExportFormat;
+  ui.setStatus("Exporting mesh...");
+  // Normals and colours are taken from the full mesh.
+  if (terrainLod) updateFullTerrain();
+  const result = await exportTerrainMesh(heightfield, terrainMesh.geometry, {
+    format,
+    heightScale,
+    targetTriangles: uiState.exportTriangles,
+    grass: uiState.exportGrass ? grassBatches.map((batch) => batch.lod) : null,
+  });
+  ui.downloadFile(
+    result,
+    `terrain-${generatorConfig.seed}${MESH_EXPORT_EXTENSIONS[format]}`,
+    format === "obj" ? "text/plain" : "model/gltf-binary",
+  );
+  ui.setStatus("Mesh exported");
+}
+
+function paintTreesAt(x: number, y: number, erase: boolean) {
+  const uiState = ui.getState();
+  const changed = erase
+    ? eraseTrees(trees, x, y, uiState.brushRadius)
+    : paintTrees(
+        trees,
+        heightfield,
+        x,
+        y,
+        { radius: uiState.brushRadius, density: uiState.treeDensity },
+        {
+          minHeight: uiState.heightLow,
+          maxHeight: uiState.heightHigh,
+          maxSlope: uiState.slopeThreshold,
+          water: waterData,
+        },
+      );
+  if (changed) {
+    updateTreeMesh(treeMesh, trees, heightfield, heightScale);
+  }
+}
+
+// Dabs are in brush space; flow carries the stroke engine's time and pressure
+// weighting.
+function applyDabs(dabs: StrokeDab[]) {
+  if (dabs.length === 0) return;
+  const { toolMode } = ui.getState();
+  if (toolMode === "layer-paint") {
+    applyLayerDabs(dabs);
+    return;
+  }
+  if (toolMode === "grass-paint") {
+    applyGrassMaskDabs(dabs);
+    return;
+  }
+  const streaming = chunkManager !== null && isStreaming();
+  // One mesh update for all of the frame's dabs.
+  let dirty: HeightfieldRegion | null = null;
+  for (const dab of dabs) {
+    const base = getSculptConfig(
+      strokeSecondary,
+      getBrushHeight(dab.x, dab.y),
+    );
+    const config: SculptBrushConfig = {
+      ...base,
+      radius: Math.max(1, base.radius * dab.radiusScale),
+      flow: dab.strengthScale,
+    };
+    if (chunkManager && streaming) {
+      chunkManager.applyBrush(dab.x, dab.y, config);
+      continue;
+    }
+    sculptHistory.captureRegion(
+      getSculptRegion(heightfield, dab.x, dab.y, config),
+    );
+    const region = applyBrush(heightfield, dab.x, dab.y, config);
+    dirty = dirty ? mergeRegions(dirty, region) : region;
+  }
+  if (dirty) {
+    refreshTerrain(dirty);
+    strokeRegion = strokeRegion ? mergeRegions(strokeRegion, dirty) : dirty;
+  }
+  grassUpdatePending = true;
+}
+
+// Painting only recolours: heights, history and grass stay as they are.
+function applyLayerDabs(dabs: StrokeDab[]) {
+  const uiState = ui.getState();
+  let dirty: HeightfieldRegion | null = null;
+  for (const dab of dabs) {
+    const config: SculptBrushConfig = {
+      radius: Math.max(1, uiState.brushRadius * dab.radiusScale),
+      intensity: uiState.brushIntensity,
+      mode: uiState.brushMode,
+      falloff: uiState.brushFalloff,
+      falloffCurve: ui.parseCurve(uiState.brushFalloffCurve),
+      flow: dab.strengthScale,
+    };
+    const region = applyLayerBrush(
+      layerPaint,
+      dab.x,
+      dab.y,
+      uiState.biomeLayer,
+      config,
+      strokeSecondary,
+    );
+    dirty = dirty ? mergeRegions(dirty, region) : region;
+  }
+  if (dirty) refreshTerrainColors(dirty);
+}
+
+// The grass follows at the end of the stroke, like after sculpting.
+function applyGrassMaskDabs(dabs: StrokeDab[]) {
+  const uiState = ui.getState();
+  for (const dab of dabs) {
+    const region = applyGrassMaskBrush(
+      grassMask,
+      dab.x,
+      dab.y,
+      {
+        radius: Math.max(1, uiState.brushRadius * dab.radiusScale),
+        intensity: uiState.brushIntensity,
+        mode: uiState.brushMode,
+        falloff: uiState.brushFalloff,
+        falloffCurve: ui.parseCurve(uiState.brushFalloffCurve),
+        flow: dab.strengthScale,
+      },
+      strokeSecondary,
+    );
+    strokeRegion = strokeRegion ? mergeRegions(strokeRegion, region) : region;
+  }
+  grassUpdatePending = true;
+}
+
+function getBrushHeight(x: number, y: number) {
+  if (chunkManager && isStreaming()) return chunkManager.sampleHeight(x, y);
+  return heightfield.sampleHeight(x, y);
+}
+
+function getStrokeOptions(uiState: ui.UiState): StrokeOptions {
+  return {
+    spacing: uiState.strokeSpacing,
+    pressureRadius: uiState.pressureRadius,
+    pressureStrength: uiState.pressureStrength,
+    tiltRadius: uiState.tiltRadius,
+  };
+}
+
+function getSculptConfig(
+  isSecondary: boolean,
+  heightUnderCursor: number,
+): SculptBrushConfig {
+  const uiState = ui.getState();
+  let mode = uiState.brushMode;
+  if (mode === "raise") {
+    mode = isSecondary ? "lower" : "raise";
+  }
+  return {
+    radius: uiState.brushRadius,
+    intensity: uiState.brushIntensity,
+    mode,
+    falloff: uiState.brushFalloff,
+    falloffCurve: ui.parseCurve(uiState.brushFalloffCurve),
+    targetHeight: strokeAnchor?.height,
+    noiseScale: uiState.noiseScale,
+    terraceStep: uiState.terraceStep,
+    ramp: strokeAnchor
+      ? {
+          startX: strokeAnchor.x,
+          startY: strokeAnchor.y,
+          startHeight: strokeAnchor.height,
+          endHeight: heightUnderCursor,
+        }
+      : undefined,
+    stamp: brushStamp,
+    invert: isSecondary,
+  };
+}
+
+async function loadStamp() {
+  const file = await ui.pickFile(".png,.r16,.raw,.r32,.exr");
+  if (!file) return;
+  const uiState = ui.getState();
+  const format = detectHeightmapFormat(file.name) ?? uiState.heightmapFormat;
+  const image = await decodeHeightmap(
+    await file.arrayBuffer(),
+    format,
+    getRawHeightmapOptions(uiState),
+  );
+  // Stamps are applied as 0..1 shapes scaled by the brush intensity.
+  const range = getHeightRange(image.data);
+  const span = Math.max(1e-6, range.max - range.min);
+  const data = new Float32Array(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (image.data[i] - range.min) / span;
+  }
+  brushStamp = { width: image.width, height: image.height, data };
+  ui.setStatus(`Stamp ${file.name} (${image.width}x${image.height})`);
+}
+
+// Blank size fields are left to the decoder to infer.
+function getRawHeightmapOptions(uiState: ui.UiState): RawHeightmapOptions {
+  return {
+    width: uiState.rawWidth || undefined,
+    height: uiState.rawHeight || undefined,
+  };
+}
+
+function isStreaming() {
+  return ui.getState().worldMode === "streaming";
+}
+
+// Shows either the fixed world or the streamed chunks; sculpted chunks survive
+// switching back and forth.
+function applyWorldMode() {
+  const streaming = isStreaming();
+  if (streaming && !chunkManager) {
+    chunkManager = new ChunkManager(
+      generatorConfig,
+      getChunkShading(ui.getState()),
+      { heightScale },
+    );
+    scene.add(chunkManager.group);
+  }
+  if (chunkManager) chunkManager.group.visible = streaming;
+
+  const useLod = !streaming && ui.getState().terrainLod;
+  if (useLod && !terrainLod) {
+    terrainLod = new TerrainLod(heightfield, getTerrainColorParams(), {
+      heightScale,
+    });
+    scene.add(terrainLod.group);
+  } else if (!ui.getState().terrainLod && terrainLod) {
+    scene.remove(terrainLod.group);
+    terrainLod.dispose();
+    terrainLod = null;
+    // Full mesh was not kept up to date while the LOD was active.
+    updateFullTerrain();
+  }
+  if (terrainLod) terrainLod.group.visible = useLod;
+  terrainMesh.visible = !streaming && !useLod;
+  applyTerrainTextures();
+  treeMesh.visible = !streaming;
+  waterSurface.mesh.visible = !streaming && waterData !== null;
+  for (const { mesh, farMesh } of grassBatches) {
+    mesh.visible = farMesh.visible = !streaming;
+  }
+}
+
+// Biome textures replace the vertex colours of the fixed world; chunks keep
+// them.
+function applyTerrainTextures() {
+  const uiState = ui.getState();
+  const previous = terrainBiomes;
+  if (uiState.terrainTextures && !terrainBiomes) {
+    terrainBiomes = new TerrainBiomes(
+      heightfield,
+      heightScale,
+      uiState.biomeLayers,
+      getBiomeParams(uiState),
+      layerPaint,
+    );
+  } else if (!uiState.terrainTextures) {
+    terrainBiomes = null;
+  }
+  terrainMesh.material = terrainBiomes?.material ?? terrainColorMaterial;
+  terrainLod?.setMaterial(terrainBiomes?.material ?? null);
+  if (previous && previous !== terrainBiomes) previous.dispose();
+}
+
+function getBiomeParams(uiState: ui.UiState): BiomeParams {
+  return {
+    heightLow: uiState.heightLow,
+    heightHigh: uiState.heightHigh,
+    blend: uiState.biomeBlend,
+    moisture: uiState.biomeMoisture,
+    temperature: uiState.biomeTemperature,
+    seed: uiState.seed,
+  };
+}
+
+async function loadBiomeTexture(kind: BiomeTextureKind) {
+  if (!terrainBiomes) {
+    ui.setStatus("Enable textured terrain to load layer textures");
+    return;
+  }
+  const file = await ui.pickFile("image/*");
+  if (!file || !terrainBiomes) return;
+  const image = await createImageBitmap(file, { imageOrientation: "flipY" });
+  const layer = ui.getState().biomeLayer;
+  terrainBiomes.setLayerTexture(layer, kind, new Texture(image));
+  ui.setStatus(`Layer ${layer + 1} ${kind}: ${file.name}`);
+}
+
+function requireFixedWorld(action: string) {
+  if (!isStreaming()) return true;
+  ui.setStatus(`${action} is only available in the fixed world mode`);
+  return false;
+}
+
+function getChunkShading(uiState: ui.UiState): ChunkShading {
+  return {
+    heightLow: uiState.heightLow,
+    heightHigh: uiState.heightHigh,
+    slopeThreshold: uiState.slopeThreshold,
+    // Same grass density per texel as the fixed 256x256 world.
+    grassInstancesPerChunk: Math.round(
+      (uiState.maxGrassInstances * 64 * 64) / (256 * 256),
+    ),
+  };
+}
+
+function getPickTargets() {
+  if (chunkManager && isStreaming()) return chunkManager.getMeshes();
+  if (terrainLod) return terrainLod.getMeshes();
+  return [terrainMesh];
+}
+
+function refreshAfterHistoryChange(region: HeightfieldRegion) {
+  refreshTerrain(region);
+  refreshWaterInBackground(region);
+}
+
+// With a region (sculpting, undo) only that part of the mesh is rewritten;
+// without one the colors may have changed everywhere too.
+function refreshTerrain(region?: HeightfieldRegion) {
+  if (terrainLod) {
+    // Patches re-read the heightfield on the next LOD update.
+    if (region) {
+      terrainLod.invalidate(region);
+    } else {
+      terrainLod.setColorParams(getTerrainColorParams());
+    }
+  } else if (region) {
+    updateTerrainGeometryFromHeightfield(
+      terrainMesh.geometry,
+      heightfield,
+      heightScale,
+      region,
+    );
+    updateTerrainVertexColors(
+      terrainMesh.geometry,
+      heightfield,
+      getTerrainColorParams(),
+      region,
+    );
+  } else {
+    updateFullTerrain();
+  }
+  if (!region) terrainKey = getTerrainKey(ui.getState());
+  if (terrainBiomes) {
+    if (region) {
+      terrainBiomes.update(region);
+    } else {
+      const uiState = ui.getState();
+      terrainBiomes.setLayers(uiState.biomeLayers, getBiomeParams(uiState));
+    }
+  }
+  // Keep painted trees snapped to the sculpted surface.
+  updateTreeMesh(treeMesh, trees, heightfield, heightScale, region);
+}
+
+function refreshTerrainColors(region: HeightfieldRegion) {
+  if (terrainLod) {
+    terrainLod.invalidate(region);
+  } else {
+    updateTerrainVertexColors(
+      terrainMesh.geometry,
+      heightfield,
+      getTerrainColorParams(),
+      region,
+    );
+  }
+  terrainBiomes?.update(region);
+}
+
+function updateFullTerrain() {
   updateTerrainGeometryFromHeightfield(
     terrainMesh.geometry,
     heightfield,
     heightScale,
   );
+  updateTerrainVertexColors(
+    terrainMesh.geometry,
+    heightfield,
+    getTerrainColorParams(),
+  );
+}
+
+function refreshWater() {
+  // A flood still running in the worker would bring back older heights.
+  jobs.cancel("water");
+  const uiState = ui.getState();
+  setWaterData(
+    uiState.waterEnabled
+      ? computeWaterData(heightfield, getWaterParams(uiState))
+      : null,
+    uiState,
+  );
+  flushWaterGrassRegion();
+}
+
+// After sculpting, undo and redo: lakes and rivers may change anywhere
+// downstream, so the whole map is flooded again in a worker. The grass over
+// `grassRegion` waits for the new water to stay out of it.
+function refreshWaterInBackground(grassRegion: HeightfieldRegion | null) {
+  if (grassRegion) {
+    waterGrassRegion = waterGrassRegion
+      ? mergeRegions(waterGrassRegion, grassRegion)
+      : grassRegion;
+  }
   const uiState = ui.getState();
-  updateTerrainVertexColors(terrainMesh.geometry, heightfield, {
+  if (!uiState.waterEnabled) {
+    refreshWater();
+    return;
+  }
+  const data = heightfield.data.slice();
+  jobs
+    .run(
+      "water",
+      {
+        width: heightfield.width,
+        height: heightfield.height,
+        data,
+        params: getWaterParams(uiState),
+      },
+      { transfer: [data.buffer] },
+    )
+    .then((output) => {
+      if (!output) return;
+      setWaterData(output.water, uiState);
+      flushWaterGrassRegion();
+    })
+    .catch((error) => {
+      console.error("Water update failed", error);
+      flushWaterGrassRegion();
+    });
+}
+
+function setWaterData(water: WaterData | null, uiState: ui.UiState) {
+  waterKey = getWaterKey(uiState);
+  waterSurface.setLook({
+    ...DEFAULT_WATER_LOOK,
+    reflections: uiState.waterReflections,
+  });
+  waterData = water;
+  if (waterData) waterSurface.update(waterData, heightfield, heightScale);
+  waterSurface.mesh.visible = !isStreaming() && waterData !== null;
+}
+
+function flushWaterGrassRegion() {
+  if (!waterGrassRegion) return;
+  const region = waterGrassRegion;
+  waterGrassRegion = null;
+  refreshGrassRegion(region);
+}
+
+function getWaterParams(uiState: ui.UiState): WaterParams {
+  return {
+    heightScale,
+    seaLevel: uiState.seaLevel,
+    lakes: uiState.waterLakes,
+    lakeMinDepth: uiState.lakeMinDepth,
+    rivers: uiState.waterRivers,
+    riverThreshold: uiState.riverThreshold,
+  };
+}
+
+// Water settings the current surface was built with.
+function getWaterKey(uiState: ui.UiState) {
+  return JSON.stringify([
+    uiState.waterEnabled,
+    uiState.waterReflections,
+    getWaterParams(uiState),
+  ]);
+}
+
+function getTerrainKey(uiState: ui.UiState) {
+  return JSON.stringify([
+    uiState.heightLow,
+    uiState.heightHigh,
+    uiState.slopeThreshold,
+    uiState.biomeLayers,
+    getBiomeParams(uiState),
+  ]);
+}
+
+function getGrassKey(uiState: ui.UiState) {
+  return JSON.stringify([
+    uiState.heightLow,
+    uiState.heightHigh,
+    uiState.slopeThreshold,
+    uiState.maxGrassInstances,
+  ]);
+}
+
+function getTerrainColorParams(): TerrainColorParams {
+  const uiState = ui.getState();
+  return {
     heightLow: uiState.heightLow,
     heightHigh: uiState.heightHigh,
     slopeThreshold: uiState.slopeThreshold,
-  });
+    paint: {
+      map: layerPaint,
+      colors: uiState.biomeLayers.map((layer) => layer.color),
+    },
+  };
 }
 
+// Density and instances are computed in a worker from a copy of the heights;
+// a newer call (slider drag, sculpt...) cancels the one still running.
 function refreshGrassDensity() {
   const uiState = ui.getState();
-  grassDensity = createGrassDensityMap(heightfield, {
+  grassKey = getGrassKey(uiState);
+  const data = heightfield.data.slice();
+  jobs
+    .run(
+      "grass",
+      {
+        width: heightfield.width,
+        height: heightfield.height,
+        data,
+        density: getGrassDensityParams(uiState),
+        heightScale,
+        maxInstances: uiState.maxGrassInstances,
+      },
+      {
+        transfer: [data.buffer],
+        onProgress: (fraction) => ui.setProgress("Grass", fraction),
+      },
+    )
+    .then((output) => {
+      if (!output) return;
+      ui.setProgress("Grass", null);
+      grassDensity?.texture.dispose();
+      grassDensity = createGrassDensityTexture(output.density);
+      console.log("Grass density map rebuilt", {
+        width: grassDensity.width,
+        height: grassDensity.height,
+      });
+      rebuildGrassMeshes(output.scatters);
+    })
+    .catch((error) => {
+      ui.setProgress("Grass", null);
+      console.error("Grass generation failed", error);
+    });
+}
+
+// After sculpting: only the density texels and grass patches over the region
+// are regenerated, the meshes are re-packed by the next updateGrassLod.
+function refreshGrassRegion(region: HeightfieldRegion) {
+  // A full rebuild still running would bring back the old heights.
+  if (!grassDensity || grassBatches.length === 0 || jobs.isRunning("grass")) {
+    refreshGrassDensity();
+    return;
+  }
+  const densityRegion = updateGrassDensityRegion(
+    grassDensity,
+    heightfield,
+    getGrassDensityParams(ui.getState()),
+    region,
+  );
+  for (const { lod } of grassBatches) {
+    updateGrassPatches(lod, heightfield, grassDensity, densityRegion);
+  }
+}
+
+function getGrassDensityParams(uiState: ui.UiState): GrassDensityParams {
+  return {
     minHeight: uiState.heightLow,
     maxHeight: uiState.heightHigh,
     maxSlope: uiState.slopeThreshold,
     // Increase density resolution to allow reaching high instance counts (e.g. 400k)
     resolution: Math.max(heightfield.width, heightfield.height) * 2,
-  });
-  console.log("Grass density map rebuilt", {
-    width: grassDensity.width,
-    height: grassDensity.height,
-  });
-  rebuildGrassMesh();
+    mask: grassMask,
+    water: waterData ?? undefined,
+    species: GRASS_SPECIES,
+  };
 }
 
-function rebuildGrassMesh() {
-  if (!grassDensity) return;
-  if (grassMesh) {
-    scene.remove(grassMesh);
-    grassMesh.geometry.dispose();
-    grassMesh.material.dispose();
+function rebuildGrassMeshes(scatters: GrassScatter[]) {
+  for (const { mesh, farMesh } of grassBatches) {
+    scene.remove(mesh, farMesh);
+    mesh.geometry.dispose();
+    // The material is shared with farMesh.
+    mesh.material.dispose();
+    farMesh.geometry.dispose();
   }
-  grassLodContext = null;
-  const uiState = ui.getState();
-  const result = createGrassInstancedMesh(heightfield, grassDensity, {
-    heightScale,
-    maxInstances: uiState.maxGrassInstances,
+  grassBatches = scatters.map((scatter, i) => {
+    // Patch centres lose their Vector3 prototype on the way from the worker.
+    for (const patch of scatter.patches) {
+      patch.center = new Vector3().copy(patch.center);
+    }
+    const batch = createGrassMeshes(scatter, GRASS_SPECIES[i]);
+    scene.add(batch.mesh, batch.farMesh);
+    return batch;
   });
-  grassMesh = result.mesh;
-  grassLodContext = result.lod;
-  scene.add(grassMesh);
 }
 
-function clampIndex(value: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, value));
+function getGeneratorConfig(uiState: ui.UiState): NoiseGeneratorConfig {
+  return {
+    type: uiState.generatorType,
+    seed: uiState.seed,
+    octaves: uiState.octaves,
+    lacunarity: uiState.lacunarity,
+    gain: uiState.gain,
+    frequency: 0.012,
+    amplitude: 1.6,
+  };
+}
+
+function getSkyParams(uiState: ui.UiState): SkyParams {
+  return {
+    ...DEFAULT_SKY_PARAMS,
+    timeOfDay: uiState.timeOfDay,
+    latitude: uiState.latitude,
+    fogDensity: uiState.fogDensity,
+    fogHeight: uiState.fogHeight,
+  };
+}
+
+function getTrampleActors(uiState: ui.UiState): TrampleActor[] {
+  const actors: TrampleActor[] = [];
+  if (!uiState.grassTrample) return actors;
+  // The camera only reaches the grass when it flies low over it.
+  const { x, y, z } = camera.position;
+  const clearance = y - sampleHeightAtWorld(x, z) * heightScale;
+  if (clearance < CAMERA_TRAMPLE_REACH) {
+    actors.push({
+      x,
+      z,
+      radius: 1.5,
+      strength: 1 - Math.max(0, clearance) / CAMERA_TRAMPLE_REACH,
+    });
+  }
+  if (uiState.trampleCursor && cursorPosition) {
+    actors.push({ ...cursorPosition, radius: 1.2, strength: 0.8 });
+  }
+  return actors;
+}
+
+function getWindParams(uiState: ui.UiState): WindParams {
+  return {
+    ...DEFAULT_WIND_PARAMS,
+    direction: uiState.windDirection,
+    strength: uiState.windStrength,
+    turbulence: uiState.windTurbulence,
+    gustStrength: uiState.gustStrength,
+    gustSpeed: uiState.gustSpeed,
+  };
+}
+
+function getShadowSettings(uiState: ui.UiState): ShadowSettings {
+  return {
+    ...DEFAULT_SHADOW_SETTINGS,
+    enabled: uiState.shadows,
+    cascades: uiState.shadowCascades,
+    mapSize: uiState.shadowMapSize,
+  };
 }
 
 function resize() {
@@ -254,6 +1338,11 @@ function resize() {
 }
 
 let startTime = performance.now();
+let lastFrameTime: number | null = null;
+// Real seconds for a full day when "Animate Day" is on.
+const DAY_LENGTH_SECONDS = 240;
+// Height above the ground from which the camera starts bending the grass.
+const CAMERA_TRAMPLE_REACH = 2.5;
 
 function render(now: number) {
   if (fpsDisplay) {
@@ -275,21 +1364,54 @@ function render(now: number) {
   const windTime = (now - startTime - pausedTime) * 0.001;
 
   const uiState = ui.getState();
+  const frameSeconds =
+    lastFrameTime === null ? 0 : (now - lastFrameTime) * 0.001;
+  lastFrameTime = now;
+  if (uiState.animateTime) {
+    uiState.timeOfDay =
+      (uiState.timeOfDay + (frameSeconds * 24) / DAY_LENGTH_SECONDS) % 24;
+    ui.setState({ timeOfDay: uiState.timeOfDay }, true);
+  }
+
+  if (isSculpting && strokeEngine.active) {
+    // A resting pen keeps sculpting at the same rate as a moving one.
+    applyDabs(strokeEngine.update(now));
+  }
   if (!isSculpting) {
-    updateGrassWind(windTime, {
-      windStrength: uiState.windStrength,
-      windFrequency: uiState.windFrequency,
-      gustStrength: uiState.gustStrength,
-      grassVariation: uiState.grassVariation,
-    });
+    windField.setParams(getWindParams(uiState));
+    windField.update(windTime, camera.position.x, camera.position.z);
+    updateGrassWind(
+      windTime,
+      {
+        windFrequency: uiState.windFrequency,
+        grassVariation: uiState.grassVariation,
+      },
+      windField,
+    );
   }
 
-  if (grassLodContext && grassLodContext.patches.length > 0) {
-    // TODO: usare GrassLodContext per LOD per patch (es. ridurre contributo delle patch lontane).
-    // Per ora nessun cambiamento a grassMesh.count.
+  trampleMap.recovery = uiState.trampleRecovery;
+  trampleMap.update(
+    frameSeconds,
+    controls.target.x,
+    controls.target.z,
+    getTrampleActors(uiState),
+  );
+  updateGrassTrample(trampleMap);
+
+  if (chunkManager && isStreaming()) {
+    chunkManager.update(controls.target, camera);
+  } else {
+    terrainLod?.update(camera);
+    for (const { lod } of grassBatches) {
+      if (lod.patches.length > 0) updateGrassLod(lod, camera);
+    }
   }
 
   controls.update();
+  skySystem.setShadows(getShadowSettings(uiState));
+  skySystem.update(getSkyParams(uiState), camera.position);
+  updateGrassLighting(skySystem.sunColor, skySystem.sunDirection);
   renderer.render(scene, camera);
   requestAnimationFrame(render);
 }
@@ -297,6 +1419,7 @@ function render(now: number) {
 window.addEventListener("resize", resize);
 canvas.addEventListener("mouseleave", () => {
   brushIndicator.visible = false;
+  cursorPosition = null;
 });
 
 async function start() {
@@ -309,51 +1432,103 @@ start().catch((error) => {
   console.error("Failed to initialize renderer", error);
 });
 
-function createBrushIndicator(): Line {
-  const segments = 64;
-  const positions = new Float32Array(segments * 3);
+const INDICATOR_SEGMENTS = 64;
+
+// Outline (circle, or square for stamps), a ring where the falloff drops to
+// half strength, and the ramp segment while a ramp stroke is active.
+function createBrushIndicator(): LineSegments {
+  const maxSegments = INDICATOR_SEGMENTS * 2 + 1;
+  const positions = new Float32Array(maxSegments * 2 * 3);
   const geometry = new BufferGeometry();
   geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
-  geometry.setDrawRange(0, segments);
+  geometry.setDrawRange(0, 0);
   const material = new LineBasicMaterial({
     color: 0xffffff,
     transparent: true,
     opacity: 0.9,
     depthWrite: false,
   });
-  const line = new Line(geometry, material);
+  const line = new LineSegments(geometry, material);
   line.visible = false;
   line.renderOrder = 2;
   return line;
 }
 
-function updateBrushIndicator(uv: { x: number; y: number }) {
+function updateBrushIndicator(centerX: number, centerZ: number) {
   if (!brushIndicator) return;
   const uiState = ui.getState();
   const radius = uiState.brushRadius;
-  const worldWidth = heightfield.width - 1;
-  const worldHeight = heightfield.height - 1;
-  const centerX = uv.x * worldWidth - worldWidth * 0.5;
-  const centerZ = (1 - uv.y) * worldHeight - worldHeight * 0.5;
   const positionAttr = brushIndicator.geometry.getAttribute(
     "position",
   ) as BufferAttribute;
   const arr = positionAttr.array as Float32Array;
-  const segments = arr.length / 3;
-  for (let i = 0; i < segments; i++) {
-    const angle = (i / segments) * Math.PI * 2;
-    const px = centerX + Math.cos(angle) * radius;
-    const pz = centerZ + Math.sin(angle) * radius;
-    const ph = sampleHeightAtWorld(px, pz) * heightScale + 0.01;
-    arr[i * 3] = px;
-    arr[i * 3 + 1] = ph;
-    arr[i * 3 + 2] = pz;
+  let count = 0;
+  const pushPoint = (px: number, pz: number) => {
+    arr[count * 3] = px;
+    arr[count * 3 + 1] = sampleHeightAtWorld(px, pz) * heightScale + 0.01;
+    arr[count * 3 + 2] = pz;
+    count++;
+  };
+  const pushOutline = (r: number, square: boolean) => {
+    const point = (i: number): [number, number] => {
+      if (!square) {
+        const angle = (i / INDICATOR_SEGMENTS) * Math.PI * 2;
+        return [centerX + Math.cos(angle) * r, centerZ + Math.sin(angle) * r];
+      }
+      // Walk the square perimeter at constant speed.
+      const t = ((i % INDICATOR_SEGMENTS) / INDICATOR_SEGMENTS) * 4;
+      const side = Math.floor(t);
+      const f = (t - side) * 2 - 1;
+      const corners: [number, number][] = [
+        [f, -1],
+        [1, f],
+        [-f, 1],
+        [-1, -f],
+      ];
+      return [centerX + corners[side][0] * r, centerZ + corners[side][1] * r];
+    };
+    for (let i = 0; i < INDICATOR_SEGMENTS; i++) {
+      pushPoint(...point(i));
+      pushPoint(...point(i + 1));
+    }
+  };
+
+  const square = uiState.brushMode === "stamp";
+  pushOutline(radius, square);
+  const curve = ui.parseCurve(uiState.brushFalloffCurve);
+  const halfRadius = radius * findHalfStrength(uiState.brushFalloff, curve);
+  if (halfRadius > 0.5 && halfRadius < radius - 0.5) {
+    pushOutline(halfRadius, square);
   }
+  if (uiState.brushMode === "ramp" && isSculpting && strokeAnchor) {
+    pushPoint(strokeAnchor.worldX, strokeAnchor.worldZ);
+    pushPoint(centerX, centerZ);
+  }
+
+  brushIndicator.geometry.setDrawRange(0, count);
   positionAttr.needsUpdate = true;
   brushIndicator.visible = true;
 }
 
+// Normalized distance where the falloff crosses 0.5 (falloffs are monotonic
+// except custom curves, for which the first crossing is good enough).
+function findHalfStrength(
+  falloff: SculptBrushConfig["falloff"],
+  curve: number[],
+) {
+  const steps = 32;
+  for (let i = 1; i <= steps; i++) {
+    if (evaluateFalloff(i / steps, falloff, curve) < 0.5) {
+      return (i - 0.5) / steps;
+    }
+  }
+  return 1;
+}
+
 function sampleHeightAtWorld(worldX: number, worldZ: number): number {
+  if (chunkManager && isStreaming()) {
+    return chunkManager.sampleHeight(worldX, worldZ);
+  }
   const worldWidth = heightfield.width - 1;
   const worldHeight = heightfield.height - 1;
   const u = worldWidth !== 0 ? worldX / worldWidth + 0.5 : 0.5;
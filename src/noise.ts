@@ -0,0 +1,248 @@
+export type NoiseBasis = "perlin" | "simplex";
+
+export type NoiseGeneratorType = "fbm" | "ridged" | "billow" | "domain-warp";
+
+export type NoiseGeneratorConfig = {
+  type: NoiseGeneratorType;
+  seed: number;
+  basis?: NoiseBasis; // default: simplex
+  octaves?: number; // default: 5
+  lacunarity?: number; // default: 2
+  gain?: number; // default: 0.5
+  frequency?: number; // cycles per sample, default: 0.01
+  amplitude?: number; // default: 1
+  warpStrength?: number; // domain-warp only, in samples, default: 40
+};
+
+// Samples a height at heightfield coordinates (x, y). Any function with this
+// signature can be plugged into a Heightfield, not only the noise generators.
+export type HeightGenerator = (x: number, y: number) => number;
+
+export type Noise2D = (x: number, y: number) => number;
+
+export function createNoiseGenerator(
+  config: NoiseGeneratorConfig,
+): HeightGenerator {
+  const octaves = Math.max(1, Math.floor(config.octaves ?? 5));
+  const lacunarity = config.lacunarity ?? 2;
+  const gain = config.gain ?? 0.5;
+  const frequency = config.frequency ?? 0.01;
+  const amplitude = config.amplitude ?? 1;
+  const basis = createBasis(config.basis ?? "simplex", config.seed);
+
+  const fractal = { octaves, lacunarity, gain };
+
+  switch (config.type) {
+    case "fbm":
+      return (x, y) =>
+        fbm(basis, x * frequency, y * frequency, fractal) * amplitude;
+    case "ridged":
+      return (x, y) =>
+        ridged(basis, x * frequency, y * frequency, fractal) * amplitude;
+    case "billow":
+      return (x, y) =>
+        billow(basis, x * frequency, y * frequency, fractal) * amplitude;
+    case "domain-warp": {
+      // Separate seeds for the warp offsets so they don't correlate with the base field.
+      const warpX = createBasis(config.basis ?? "simplex", config.seed + 1013);
+      const warpY = createBasis(config.basis ?? "simplex", config.seed + 2029);
+      const warpStrength = config.warpStrength ?? 40;
+      const warpFractal = { octaves: Math.min(octaves, 3), lacunarity, gain };
+      return (x, y) => {
+        const fx = x * frequency;
+        const fy = y * frequency;
+        const wx = fbm(warpX, fx, fy, warpFractal) * warpStrength * frequency;
+        const wy = fbm(warpY, fx, fy, warpFractal) * warpStrength * frequency;
+        return fbm(basis, fx + wx, fy + wy, fractal) * amplitude;
+      };
+    }
+    default:
+      throw new Error(`Unknown noise generator type: ${config.type}`);
+  }
+}
+
+// mulberry32: small, fast and good enough for procedural placement.
+export function createSeededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createPerlin2D(seed: number): Noise2D {
+  const perm = buildPermutation(seed);
+  return (x, y) => {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const xf = x - xi;
+    const yf = y - yi;
+    const X = xi & 255;
+    const Y = yi & 255;
+
+    const aa = perm[perm[X] + Y];
+    const ab = perm[perm[X] + Y + 1];
+    const ba = perm[perm[X + 1] + Y];
+    const bb = perm[perm[X + 1] + Y + 1];
+
+    const u = fade(xf);
+    const v = fade(yf);
+    const x1 = lerp(grad2(aa, xf, yf), grad2(ba, xf - 1, yf), u);
+    const x2 = lerp(grad2(ab, xf, yf - 1), grad2(bb, xf - 1, yf - 1), u);
+    // 2D Perlin stays within about [-0.71, 0.71]: rescale to ~[-1, 1].
+    return lerp(x1, x2, v) * 1.4142;
+  };
+}
+
+export function createSimplex2D(seed: number): Noise2D {
+  const perm = buildPermutation(seed);
+  const F2 = 0.5 * (Math.sqrt(3) - 1);
+  const G2 = (3 - Math.sqrt(3)) / 6;
+
+  return (x, y) => {
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+
+    let n = 0;
+    let t0 = 0.5 - x0 * x0 - y0 * y0;
+    if (t0 > 0) {
+      t0 *= t0;
+      n += t0 * t0 * grad2(perm[ii + perm[jj]], x0, y0);
+    }
+    let t1 = 0.5 - x1 * x1 - y1 * y1;
+    if (t1 > 0) {
+      t1 *= t1;
+      n += t1 * t1 * grad2(perm[ii + i1 + perm[jj + j1]], x1, y1);
+    }
+    let t2 = 0.5 - x2 * x2 - y2 * y2;
+    if (t2 > 0) {
+      t2 *= t2;
+      n += t2 * t2 * grad2(perm[ii + 1 + perm[jj + 1]], x2, y2);
+    }
+    return n * 70;
+  };
+}
+
+type FractalParams = {
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+};
+
+function fbm(noise: Noise2D, x: number, y: number, params: FractalParams) {
+  let sum = 0;
+  let amp = 1;
+  let freq = 1;
+  let norm = 0;
+  for (let o = 0; o < params.octaves; o++) {
+    // Offset each octave so they don't all pass through zero at the origin.
+    sum += noise(x * freq + o * 17.31, y * freq + o * 9.73) * amp;
+    norm += amp;
+    amp *= params.gain;
+    freq *= params.lacunarity;
+  }
+  return norm > 0 ? sum / norm : 0;
+}
+
+function ridged(noise: Noise2D, x: number, y: number, params: FractalParams) {
+  let sum = 0;
+  let amp = 1;
+  let freq = 1;
+  let norm = 0;
+  let weight = 1;
+  for (let o = 0; o < params.octaves; o++) {
+    let n = 1 - Math.abs(noise(x * freq + o * 17.31, y * freq + o * 9.73));
+    n *= n;
+    // Higher octave ridges are weighted by the lower ones (multifractal).
+    n *= weight;
+    weight = Math.min(1, Math.max(0, n * 2));
+    sum += n * amp;
+    norm += amp;
+    amp *= params.gain;
+    freq *= params.lacunarity;
+  }
+  // [0, 1] -> [-1, 1]
+  return norm > 0 ? (sum / norm) * 2 - 1 : 0;
+}
+
+function billow(noise: Noise2D, x: number, y: number, params: FractalParams) {
+  let sum = 0;
+  let amp = 1;
+  let freq = 1;
+  let norm = 0;
+  for (let o = 0; o < params.octaves; o++) {
+    const n = Math.abs(noise(x * freq + o * 17.31, y * freq + o * 9.73));
+    sum += (n * 2 - 1) * amp;
+    norm += amp;
+    amp *= params.gain;
+    freq *= params.lacunarity;
+  }
+  return norm > 0 ? sum / norm : 0;
+}
+
+function createBasis(basis: NoiseBasis, seed: number): Noise2D {
+  return basis === "perlin" ? createPerlin2D(seed) : createSimplex2D(seed);
+}
+
+function buildPermutation(seed: number): Uint8Array {
+  const random = createSeededRandom(seed);
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = p[i];
+    p[i] = p[j];
+    p[j] = tmp;
+  }
+  // Doubled so lookups like perm[X + 1 + perm[...]] never need wrapping.
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+  return perm;
+}
+
+function grad2(hash: number, x: number, y: number) {
+  switch (hash & 7) {
+    case 0:
+      return x + y;
+    case 1:
+      return -x + y;
+    case 2:
+      return x - y;
+    case 3:
+      return -x - y;
+    case 4:
+      return x;
+    case 5:
+      return -x;
+    case 6:
+      return y;
+    default:
+      return -y;
+  }
+}
+
+function fade(t: number) {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
@@ -0,0 +1,203 @@
+import { NoiseGeneratorConfig } from "./noise";
+import { packTrees, TreeInstance, unpackTrees } from "./trees";
+import { UiState } from "./ui";
+
+// Layout of a .wgw file (little endian):
+//   [0..4)   magic "WGWD"
+//   [4..8)   format version (u32)
+//   [8..12)  header length in bytes (u32)
+//   header   UTF-8 JSON (ProjectHeader), padded with spaces to 4 bytes
+//   blobs    raw Float32 sections referenced by header.sections
+export const PROJECT_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = ".wgw";
+
+const MAGIC = "WGWD";
+
+export type ProjectCamera = {
+  position: [number, number, number];
+  target: [number, number, number];
+};
+
+export type WorldProject = {
+  width: number;
+  height: number;
+  heights: Float32Array;
+  heightScale: number;
+  generator: NoiseGeneratorConfig;
+  ui: UiState;
+  camera: ProjectCamera;
+  trees: TreeInstance[];
+  // Painted layer weights (LayerPaintMap planes), empty if nothing is painted.
+  layers: Float32Array;
+  // Grass density mask (GrassDensityMask data), empty if never painted.
+  grassMask: Float32Array;
+};
+
+type ProjectSection = {
+  name: string;
+  byteOffset: number; // relative to the start of the blob area
+  length: number; // in float32 elements
+};
+
+type ProjectHeader = {
+  width: number;
+  height: number;
+  heightScale: number;
+  generator: NoiseGeneratorConfig;
+  ui: UiState;
+  camera: ProjectCamera;
+  sections: ProjectSection[];
+};
+
+type ProjectData = {
+  header: ProjectHeader;
+  sections: Map<string, Float32Array>;
+};
+
+// migrations[n] upgrades a version n file to version n + 1.
+const migrations: Record<number, (data: ProjectData) => ProjectData> = {
+  // v2 added painted trees.
+  1: (data) => {
+    data.sections.set("trees", new Float32Array(0));
+    return data;
+  },
+  // v3 added painted terrain layers.
+  2: (data) => {
+    data.sections.set("layers", new Float32Array(0));
+    return data;
+  },
+  // v4 added the painted grass density mask.
+  3: (data) => {
+    data.sections.set("grassMask", new Float32Array(0));
+    return data;
+  },
+};
+
+export function encodeProject(project: WorldProject): ArrayBuffer {
+  const blobs = new Map<string, Float32Array>([
+    ["heights", project.heights],
+    ["trees", packTrees(project.trees)],
+    ["layers", project.layers],
+    ["grassMask", project.grassMask],
+  ]);
+
+  const sections: ProjectSection[] = [];
+  let blobBytes = 0;
+  blobs.forEach((values, name) => {
+    sections.push({ name, byteOffset: blobBytes, length: values.length });
+    blobBytes += values.byteLength;
+  });
+
+  const header: ProjectHeader = {
+    width: project.width,
+    height: project.height,
+    heightScale: project.heightScale,
+    generator: project.generator,
+    ui: project.ui,
+    camera: project.camera,
+    sections,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const headerBytes = align4(json.byteLength);
+
+  const buffer = new ArrayBuffer(12 + headerBytes + blobBytes);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  for (let i = 0; i < MAGIC.length; i++) {
+    bytes[i] = MAGIC.charCodeAt(i);
+  }
+  view.setUint32(4, PROJECT_VERSION, true);
+  view.setUint32(8, headerBytes, true);
+  bytes.fill(0x20, 12, 12 + headerBytes);
+  bytes.set(json, 12);
+
+  const blobStart = 12 + headerBytes;
+  for (const section of sections) {
+    const values = blobs.get(section.name)!;
+    writeFloat32(view, blobStart + section.byteOffset, values);
+  }
+  return buffer;
+}
+
+export function decodeProject(buffer: ArrayBuffer): WorldProject {
+  if (buffer.byteLength < 12) {
+    throw new Error("Not a world project file");
+  }
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(...bytes.subarray(0, 4));
+  if (magic !== MAGIC) {
+    throw new Error("Not a world project file");
+  }
+
+  let version = view.getUint32(4, true);
+  if (version > PROJECT_VERSION) {
+    throw new Error(
+      `World file version ${version} is newer than supported (${PROJECT_VERSION})`,
+    );
+  }
+
+  const headerBytes = view.getUint32(8, true);
+  const header = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(12, 12 + headerBytes)),
+  ) as ProjectHeader;
+
+  const blobStart = 12 + headerBytes;
+  const sections = new Map<string, Float32Array>();
+  for (const section of header.sections) {
+    sections.set(
+      section.name,
+      readFloat32(view, blobStart + section.byteOffset, section.length),
+    );
+  }
+
+  let data: ProjectData = { header, sections };
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from world file version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const heights = data.sections.get("heights");
+  if (!heights || heights.length !== data.header.width * data.header.height) {
+    throw new Error("World file has no valid heightfield data");
+  }
+
+  return {
+    width: data.header.width,
+    height: data.header.height,
+    heights,
+    heightScale: data.header.heightScale,
+    generator: data.header.generator,
+    ui: data.header.ui,
+    camera: data.header.camera,
+    trees: unpackTrees(data.sections.get("trees") ?? new Float32Array(0)),
+    layers: data.sections.get("layers") ?? new Float32Array(0),
+    grassMask: data.sections.get("grassMask") ?? new Float32Array(0),
+  };
+}
+
+function writeFloat32(view: DataView, offset: number, values: Float32Array) {
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(offset + i * 4, values[i], true);
+  }
+}
+
+function readFloat32(
+  view: DataView,
+  offset: number,
+  length: number,
+): Float32Array {
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    out[i] = view.getFloat32(offset + i * 4, true);
+  }
+  return out;
+}
+
+function align4(value: number) {
+  return (value + 3) & ~3;
+}
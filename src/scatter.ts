@@ -0,0 +1,188 @@
+import { createSeededRandom } from "./noise";
+
+// Shared point scattering for vegetation: a tile of progressive blue noise,
+// repeated over the plane. Points come in rank order and every prefix is
+// evenly spread too, so keeping the points whose rank is below a local
+// density thins them without clumps, grid patterns or overlaps. Same seed,
+// same points: regenerating an area places everything where it was.
+
+export type ScatterTile = {
+  count: number;
+  points: Float32Array; // x, y in [0, 1) of the tile, by rank
+  minDistance: number; // closest pair of points, in tiles
+};
+
+export const DEFAULT_TILE_POINTS = 4096;
+
+// Candidates tried per point: more = evener, slower to build.
+const CANDIDATES = 12;
+
+const tiles = new Map<string, ScatterTile>();
+
+// Built once per seed and size and shared by every caller.
+export function getScatterTile(
+  seed: number,
+  count = DEFAULT_TILE_POINTS,
+): ScatterTile {
+  const key = `${seed}:${count}`;
+  let tile = tiles.get(key);
+  if (!tile) {
+    tile = createScatterTile(seed, count);
+    tiles.set(key, tile);
+  }
+  return tile;
+}
+
+// Side of the tile that puts `pointsPerUnit` points in a unit square on
+// average.
+export function getTileSizeForDensity(
+  tile: ScatterTile,
+  pointsPerUnit: number,
+): number {
+  return Math.sqrt(tile.count / Math.max(1e-6, pointsPerUnit));
+}
+
+// Calls `visit` for every point in [minX, maxX) x [minY, maxY) of the plane
+// tiled with `tile`, `tileSize` units per side. `rank` is in [0, 1): keep the
+// point where it is below the wanted fraction of the full density. The tile
+// coordinates and point index identify the spot, see getSpotRandom.
+export function forEachScatterPoint(
+  tile: ScatterTile,
+  tileSize: number,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+  visit: (
+    x: number,
+    y: number,
+    rank: number,
+    tileX: number,
+    tileY: number,
+    index: number,
+  ) => void,
+): void {
+  const { count, points } = tile;
+  const firstX = Math.floor(minX / tileSize);
+  const firstY = Math.floor(minY / tileSize);
+  const lastX = Math.floor(maxX / tileSize);
+  const lastY = Math.floor(maxY / tileSize);
+  for (let ty = firstY; ty <= lastY; ty++) {
+    for (let tx = firstX; tx <= lastX; tx++) {
+      for (let i = 0; i < count; i++) {
+        const x = (tx + points[i * 2]) * tileSize;
+        const y = (ty + points[i * 2 + 1]) * tileSize;
+        if (x < minX || y < minY || x >= maxX || y >= maxY) continue;
+        visit(x, y, (i + 0.5) / count, tx, ty, i);
+      }
+    }
+  }
+}
+
+// A value in [0, 1) fixed for one spot of the tiled plane, for whatever else
+// the spot needs (size, rotation...); `salt` gives independent values.
+export function getSpotRandom(
+  seed: number,
+  tileX: number,
+  tileY: number,
+  index: number,
+  salt = 0,
+): number {
+  const hash =
+    seed ^
+    Math.imul(tileX, 0x27d4eb2d) ^
+    Math.imul(tileY, 0x165667b1) ^
+    Math.imul(index, 0x9e3779b1) ^
+    Math.imul(salt, 0x85ebca6b);
+  return createSeededRandom(hash)();
+}
+
+// Mitchell's best candidate on the torus: each new point is the candidate
+// farthest from the ones already placed, which is what makes the prefixes
+// even. A grid of about one point per cell keeps the nearest-point search
+// local.
+function createScatterTile(seed: number, count: number): ScatterTile {
+  const random = createSeededRandom(seed);
+  const points = new Float32Array(count * 2);
+  const gridSize = Math.max(1, Math.floor(Math.sqrt(count)));
+  const cells: number[][] = Array.from(
+    { length: gridSize * gridSize },
+    () => [],
+  );
+  let minDistanceSq = Infinity;
+
+  for (let i = 0; i < count; i++) {
+    let bestX = 0;
+    let bestY = 0;
+    let bestDistanceSq = -1;
+    const candidates = i === 0 ? 1 : CANDIDATES;
+    for (let c = 0; c < candidates; c++) {
+      const x = random();
+      const y = random();
+      const distanceSq =
+        i === 0 ? Infinity : nearestDistanceSq(points, cells, gridSize, x, y);
+      if (distanceSq > bestDistanceSq) {
+        bestX = x;
+        bestY = y;
+        bestDistanceSq = distanceSq;
+      }
+    }
+    points[i * 2] = bestX;
+    points[i * 2 + 1] = bestY;
+    cells[cellIndex(bestX, bestY, gridSize)].push(i);
+    // Every pair is measured when its later point goes in.
+    minDistanceSq = Math.min(minDistanceSq, bestDistanceSq);
+  }
+  return {
+    count,
+    points,
+    minDistance: count > 1 ? Math.sqrt(minDistanceSq) : 1,
+  };
+}
+
+// Squared distance to the closest placed point, wrapping around the tile.
+// Rings of cells are searched outwards until no closer point can be left.
+function nearestDistanceSq(
+  points: Float32Array,
+  cells: number[][],
+  gridSize: number,
+  x: number,
+  y: number,
+): number {
+  const cx = Math.floor(x * gridSize);
+  const cy = Math.floor(y * gridSize);
+  const cellSize = 1 / gridSize;
+  const maxRing = Math.ceil(gridSize / 2);
+  let best = Infinity;
+  for (let ring = 0; ring <= maxRing; ring++) {
+    for (let dy = -ring; dy <= ring; dy++) {
+      const edge = dy === -ring || dy === ring;
+      for (let dx = -ring; dx <= ring; dx += edge ? 1 : ring * 2) {
+        const gx = wrap(cx + dx, gridSize);
+        const gy = wrap(cy + dy, gridSize);
+        for (const j of cells[gy * gridSize + gx]) {
+          let ox = Math.abs(points[j * 2] - x);
+          let oy = Math.abs(points[j * 2 + 1] - y);
+          ox = Math.min(ox, 1 - ox);
+          oy = Math.min(oy, 1 - oy);
+          best = Math.min(best, ox * ox + oy * oy);
+        }
+        if (ring === 0) break;
+      }
+    }
+    // Points past the next ring are at least `ring` cells away.
+    const reach = ring * cellSize;
+    if (best <= reach * reach) break;
+  }
+  return best;
+}
+
+function cellIndex(x: number, y: number, gridSize: number) {
+  const gx = Math.min(gridSize - 1, Math.floor(x * gridSize));
+  const gy = Math.min(gridSize - 1, Math.floor(y * gridSize));
+  return gy * gridSize + gx;
+}
+
+function wrap(value: number, size: number) {
+  return ((value % size) + size) % size;
+}
@@ -1,53 +1,379 @@
-import { Heightfield } from "./heightfield";
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import { applyHydraulicErosion, applyThermalErosion } from "./erosion";
+import { createSimplex2D } from "./noise";
+
+export type SculptBrushMode =
+  | "raise"
+  | "lower"
+  | "smooth"
+  | "erode"
+  | "flatten"
+  | "noise"
+  | "terrace"
+  | "ramp"
+  | "stamp";
+
+export type BrushFalloff = "linear" | "smooth" | "spherical" | "custom";
+
+// Heights in 0..1, row-major; drawn over the square around the brush centre.
+export type BrushStamp = {
+  width: number;
+  height: number;
+  data: Float32Array;
+};
+
+// Ramp from the stroke start to the current brush centre.
+export type BrushRamp = {
+  startX: number;
+  startY: number;
+  startHeight: number;
+  endHeight: number;
+};
 
 export type SculptBrushConfig = {
   radius: number;
   intensity: number;
-  mode: "raise" | "lower" | "smooth";
+  mode: SculptBrushMode;
+  falloff?: BrushFalloff; // default linear
+  // "custom" falloff: weights from the centre (first) to the rim (last).
+  falloffCurve?: number[];
+  targetHeight?: number; // flatten, default: height under the centre
+  noiseScale?: number; // noise, feature size in texels, default 8
+  terraceStep?: number; // terrace, default 0.25
+  ramp?: BrushRamp;
+  stamp?: BrushStamp;
+  invert?: boolean; // noise and stamp dig instead of adding
+  // Dab weight from the stroke engine (elapsed time, pen pressure), default 1.
+  flow?: number;
 };
 
+const brushNoise = createSimplex2D(7);
+
+// Returns the texels the dab may have changed, for partial mesh updates.
 export function applyBrush(
   heightfield: Heightfield,
   centerX: number,
   centerY: number,
   config: SculptBrushConfig,
-): void {
+): HeightfieldRegion {
   const { radius, intensity, mode } = config;
-  const sourceData =
-    mode === "smooth" ? new Float32Array(heightfield.data) : heightfield.data;
-  const minX = Math.max(0, Math.floor(centerX - radius));
-  const maxX = Math.min(heightfield.width - 1, Math.ceil(centerX + radius));
-  const minY = Math.max(0, Math.floor(centerY - radius));
-  const maxY = Math.min(heightfield.height - 1, Math.ceil(centerY + radius));
+  const region = getSculptRegion(heightfield, centerX, centerY, config);
+  const { minX, minY, maxX, maxY } = region;
+  // Smoothing reads the heights from before the dab: the region plus the
+  // texel ring its 3x3 kernel reaches.
+  const source = mode === "smooth" ? copyHeights(heightfield, region, 1) : null;
+
+  if (mode === "erode") {
+    applyErosionBrush(heightfield, centerX, centerY, config, region);
+    return region;
+  }
+
+  const flow = config.flow ?? 1;
+  // Blend-towards-target modes reach the target in a few dabs at full intensity.
+  const blend = Math.min(1, intensity * 4 * flow);
+  const amount = intensity * flow;
+  const sign = mode === "lower" || config.invert ? -1 : 1;
+  const targetHeight =
+    config.targetHeight ?? heightfield.sampleHeight(centerX, centerY);
+  const noiseScale = Math.max(1e-3, config.noiseScale ?? 8);
+  const terraceStep = Math.max(1e-3, config.terraceStep ?? 0.25);
 
   for (let y = minY; y <= maxY; y++) {
     for (let x = minX; x <= maxX; x++) {
+      const t = getBrushDistance(x, y, centerX, centerY, config) / radius;
+      if (t > 1) continue;
+
+      const falloff = evaluateFalloff(t, config.falloff, config.falloffCurve);
+      const height = heightfield.getHeight(x, y);
+      let nextHeight = height;
+      switch (mode) {
+        case "smooth": {
+          if (!source) continue;
+          const localX = x - source.x;
+          const localY = y - source.y;
+          const oldHeight = source.data[localY * source.width + localX];
+          const neighborAverage = getNeighborAverage(
+            source.data,
+            source.width,
+            source.height,
+            localX,
+            localY,
+          );
+          nextHeight = lerp(
+            oldHeight,
+            neighborAverage,
+            falloff * Math.min(1, flow),
+          );
+          break;
+        }
+        case "flatten":
+          nextHeight = lerp(height, targetHeight, falloff * blend);
+          break;
+        case "noise": {
+          const noise = brushNoise(x / noiseScale, y / noiseScale);
+          nextHeight = height + noise * amount * falloff * sign;
+          break;
+        }
+        case "terrace": {
+          const terraced = Math.round(height / terraceStep) * terraceStep;
+          nextHeight = lerp(height, terraced, falloff * blend);
+          break;
+        }
+        case "ramp": {
+          if (!config.ramp) continue;
+          nextHeight = lerp(
+            height,
+            getRampHeight(config.ramp, centerX, centerY, x, y),
+            falloff * blend,
+          );
+          break;
+        }
+        case "stamp": {
+          if (!config.stamp) continue;
+          const u = ((x - centerX) / radius + 1) * 0.5;
+          const v = ((y - centerY) / radius + 1) * 0.5;
+          const stampHeight = sampleStamp(config.stamp, u, v);
+          nextHeight = height + stampHeight * amount * falloff * sign;
+          break;
+        }
+        default:
+          nextHeight = height + amount * falloff * sign;
+      }
+      heightfield.setHeight(x, y, nextHeight);
+    }
+  }
+  return region;
+}
+
+// Texels applyBrush may touch for this config: the ramp covers the whole
+// segment from its start, the other modes the square around the centre.
+export function getSculptRegion(
+  heightfield: Heightfield,
+  centerX: number,
+  centerY: number,
+  config: SculptBrushConfig,
+): HeightfieldRegion {
+  const region = getBrushRegion(heightfield, centerX, centerY, config.radius);
+  if (config.mode !== "ramp" || !config.ramp) return region;
+  const start = getBrushRegion(
+    heightfield,
+    config.ramp.startX,
+    config.ramp.startY,
+    config.radius,
+  );
+  return {
+    minX: Math.min(region.minX, start.minX),
+    minY: Math.min(region.minY, start.minY),
+    maxX: Math.max(region.maxX, start.maxX),
+    maxY: Math.max(region.maxY, start.maxY),
+  };
+}
+
+// Brush weight at t = distance / radius, 1 at the centre and 0 at the rim.
+export function evaluateFalloff(
+  t: number,
+  falloff: BrushFalloff = "linear",
+  curve?: number[],
+): number {
+  const x = Math.min(1, Math.max(0, t));
+  switch (falloff) {
+    case "smooth":
+      return 1 - x * x * (3 - 2 * x);
+    case "spherical":
+      return Math.sqrt(1 - x * x);
+    case "custom": {
+      if (!curve || curve.length === 0) return 1 - x;
+      if (curve.length === 1) return curve[0];
+      const position = x * (curve.length - 1);
+      const i = Math.min(curve.length - 2, Math.floor(position));
+      return lerp(curve[i], curve[i + 1], position - i);
+    }
+    default:
+      return 1 - x;
+  }
+}
+
+// Radial crater used until a stamp heightmap is loaded.
+export function createDefaultStamp(size = 64): BrushStamp {
+  const data = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = (x / (size - 1)) * 2 - 1;
+      const dy = (y / (size - 1)) * 2 - 1;
+      const r = Math.sqrt(dx * dx + dy * dy);
+      const rim = Math.exp(-((r - 0.7) * (r - 0.7)) / 0.02);
+      const bowl = r < 0.7 ? (0.7 - r) * 0.6 : 0;
+      data[y * size + x] = Math.max(0, rim - bowl);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+// Texels a dab centered at (centerX, centerY) may modify.
+export function getBrushRegion(
+  heightfield: Heightfield,
+  centerX: number,
+  centerY: number,
+  radius: number,
+): HeightfieldRegion {
+  return {
+    minX: Math.max(0, Math.floor(centerX - radius)),
+    minY: Math.max(0, Math.floor(centerY - radius)),
+    maxX: Math.min(heightfield.width - 1, Math.ceil(centerX + radius)),
+    maxY: Math.min(heightfield.height - 1, Math.ceil(centerY + radius)),
+  };
+}
+
+// Stamps cover a square, every other mode a disc.
+function getBrushDistance(
+  x: number,
+  y: number,
+  centerX: number,
+  centerY: number,
+  config: SculptBrushConfig,
+) {
+  if (config.mode === "stamp") {
+    return Math.max(Math.abs(x - centerX), Math.abs(y - centerY));
+  }
+  if (config.mode === "ramp" && config.ramp) {
+    // Distance from the segment, so the ramp is a capsule.
+    const { startX, startY } = config.ramp;
+    const t = projectOnSegment(startX, startY, centerX, centerY, x, y);
+    const px = startX + (centerX - startX) * t;
+    const py = startY + (centerY - startY) * t;
+    return Math.sqrt((x - px) * (x - px) + (y - py) * (y - py));
+  }
+  const dx = x - centerX;
+  const dy = y - centerY;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function getRampHeight(
+  ramp: BrushRamp,
+  endX: number,
+  endY: number,
+  x: number,
+  y: number,
+) {
+  const t = projectOnSegment(ramp.startX, ramp.startY, endX, endY, x, y);
+  return lerp(ramp.startHeight, ramp.endHeight, t);
+}
+
+function projectOnSegment(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  x: number,
+  y: number,
+) {
+  const abx = bx - ax;
+  const aby = by - ay;
+  const lengthSq = abx * abx + aby * aby;
+  if (lengthSq === 0) return 0;
+  const t = ((x - ax) * abx + (y - ay) * aby) / lengthSq;
+  return Math.min(1, Math.max(0, t));
+}
+
+function sampleStamp(stamp: BrushStamp, u: number, v: number) {
+  const x = Math.min(1, Math.max(0, u)) * (stamp.width - 1);
+  const y = Math.min(1, Math.max(0, v)) * (stamp.height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(stamp.width - 1, x0 + 1);
+  const y1 = Math.min(stamp.height - 1, y0 + 1);
+  const tx = x - x0;
+  const ty = y - y0;
+  const row0 = y0 * stamp.width;
+  const row1 = y1 * stamp.width;
+  const h0 = lerp(stamp.data[row0 + x0], stamp.data[row0 + x1], tx);
+  const h1 = lerp(stamp.data[row1 + x0], stamp.data[row1 + x1], tx);
+  return lerp(h0, h1, ty);
+}
+
+function applyErosionBrush(
+  heightfield: Heightfield,
+  centerX: number,
+  centerY: number,
+  config: SculptBrushConfig,
+  region: HeightfieldRegion,
+) {
+  const { radius } = config;
+  const intensity = config.intensity * (config.flow ?? 1);
+  const regionWidth = region.maxX - region.minX + 1;
+  const regionHeight = region.maxY - region.minY + 1;
+  const before = new Float32Array(regionWidth * regionHeight);
+  for (let y = 0; y < regionHeight; y++) {
+    const rowStart = (region.minY + y) * heightfield.width + region.minX;
+    before.set(
+      heightfield.data.subarray(rowStart, rowStart + regionWidth),
+      y * regionWidth,
+    );
+  }
+
+  // Deterministic per dab position, so replaying a stroke gives the same result.
+  const seed =
+    (Math.imul(Math.round(centerX), 73856093) ^
+      Math.imul(Math.round(centerY), 19349663)) >>>
+    0;
+  applyHydraulicErosion(
+    heightfield,
+    {
+      droplets: Math.max(1, Math.round(radius * radius * intensity * 8)),
+      seed,
+      maxLifetime: Math.max(4, Math.ceil(radius)),
+    },
+    undefined,
+    region,
+  );
+  applyThermalErosion(heightfield, { iterations: 1, talus: 0.02 }, undefined, region);
+
+  // Blend eroded heights back with the brush falloff so the dab has soft edges.
+  for (let y = region.minY; y <= region.maxY; y++) {
+    for (let x = region.minX; x <= region.maxX; x++) {
       const dx = x - centerX;
       const dy = y - centerY;
       const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist > radius) continue;
-
-      const falloff = Math.max(0, 1 - dist / radius);
-      if (mode === "smooth") {
-        const oldHeight = sourceData[y * heightfield.width + x];
-        const neighborAverage = getNeighborAverage(
-          sourceData,
-          heightfield.width,
-          heightfield.height,
-          x,
-          y,
-        );
-        const smoothed = lerp(oldHeight, neighborAverage, falloff);
-        heightfield.setHeight(x, y, smoothed);
-      } else {
-        const delta = intensity * falloff * (mode === "raise" ? 1 : -1);
-        const nextHeight = heightfield.getHeight(x, y) + delta;
-        heightfield.setHeight(x, y, nextHeight);
-      }
+      const falloff =
+        dist > radius
+          ? 0
+          : evaluateFalloff(dist / radius, config.falloff, config.falloffCurve);
+      const oldHeight =
+        before[(y - region.minY) * regionWidth + (x - region.minX)];
+      heightfield.setHeight(
+        x,
+        y,
+        lerp(oldHeight, heightfield.getHeight(x, y), falloff),
+      );
     }
   }
 }
 
+// A copy of `region` grown by `margin` texels, clamped to the heightfield;
+// x and y are where it starts.
+function copyHeights(
+  heightfield: Heightfield,
+  region: HeightfieldRegion,
+  margin: number,
+) {
+  const x = Math.max(0, region.minX - margin);
+  const y = Math.max(0, region.minY - margin);
+  const width = Math.max(
+    0,
+    Math.min(heightfield.width - 1, region.maxX + margin) - x + 1,
+  );
+  const height = Math.max(
+    0,
+    Math.min(heightfield.height - 1, region.maxY + margin) - y + 1,
+  );
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const start = (y + row) * heightfield.width + x;
+    data.set(heightfield.data.subarray(start, start + width), row * width);
+  }
+  return { data, x, y, width, height };
+}
+
 function getNeighborAverage(
   data: Float32Array,
   width: number,
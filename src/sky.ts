@@ -0,0 +1,236 @@
+import {
+  Color,
+  DirectionalLight,
+  HemisphereLight,
+  MathUtils,
+  Scene,
+  Vector3,
+} from "three";
+import { Node, TSL } from "three/webgpu";
+import { CSMShadowNode } from "three/examples/jsm/csm/CSMShadowNode.js";
+import { SkyMesh } from "three/examples/jsm/objects/SkyMesh.js";
+
+// Preetham sky, sun and sky-coloured ambient light driven by the time of day,
+// plus distance fog that thins out with height.
+
+export type SkyParams = {
+  timeOfDay: number; // hours, 0..24
+  latitude: number; // degrees, negative south
+  dayOfYear: number; // 0..365, sets the sun declination
+  fogDensity: number; // exponential squared, per world unit
+  fogHeight: number; // world height below which the fog is at full density
+};
+
+export const DEFAULT_SKY_PARAMS: SkyParams = {
+  timeOfDay: 10,
+  latitude: 45,
+  dayOfYear: 172,
+  fogDensity: 0.004,
+  fogHeight: 1,
+};
+
+// Cascaded shadow maps of the sun, fitted to the camera frustum up to
+// maxDistance.
+export type ShadowSettings = {
+  enabled: boolean;
+  cascades: number;
+  mapSize: number; // texels per side of each cascade
+  maxDistance: number;
+};
+
+export const DEFAULT_SHADOW_SETTINGS: ShadowSettings = {
+  enabled: true,
+  cascades: 3,
+  mapSize: 2048,
+  maxDistance: 250,
+};
+
+const { densityFogFactor, exp, fog, positionWorld, uniform } = TSL;
+
+// Fog halves roughly every 5 world units above fogHeight.
+const FOG_FALLOFF = 0.14;
+const SUN_DISTANCE = 200;
+const SUN_INTENSITY = 1.1;
+const AMBIENT_INTENSITY = 0.6;
+const NIGHT_INTENSITY = 0.12;
+// How far behind each cascade the shadow cameras start, to catch casters
+// outside the view.
+const SHADOW_MARGIN = 100;
+
+// Ambient palettes by sun elevation (sine): night, sunrise/sunset, day.
+const NIGHT_SKY = new Color("#1b2440");
+const NIGHT_GROUND = new Color("#0b0d12");
+const DUSK_SKY = new Color("#e3906a");
+const DUSK_GROUND = new Color("#4a3a34");
+const DAY_SKY = new Color("#a9cdf2");
+const DAY_GROUND = new Color("#5d5a48");
+const HORIZON_SUN = new Color("#ff8a3d");
+const ZENITH_SUN = new Color("#fff3e2");
+
+export class SkySystem {
+  readonly sky = new SkyMesh();
+  readonly ambient = new HemisphereLight(0xffffff, 0x000000, AMBIENT_INTENSITY);
+  // Unit vector towards the sun and the colour its light has on the ground.
+  readonly sunDirection = new Vector3(0, 1, 0);
+  readonly sunColor = new Color();
+
+  private readonly fogColor = uniform(new Color());
+  private readonly fogDensity = uniform(DEFAULT_SKY_PARAMS.fogDensity);
+  private readonly fogHeight = uniform(DEFAULT_SKY_PARAMS.fogHeight);
+  private readonly scene: Scene;
+  private sun: DirectionalLight;
+  private shadows = DEFAULT_SHADOW_SETTINGS;
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+    this.sun = createSun(this.shadows);
+    this.sky.scale.setScalar(500);
+    // The dome is drawn at the far plane and would only ever show the fog.
+    this.sky.material.fog = false;
+    this.sky.turbidity.value = 4;
+    this.sky.rayleigh.value = 1.5;
+    this.sky.mieCoefficient.value = 0.005;
+    this.sky.mieDirectionalG.value = 0.8;
+    scene.add(this.sky, this.sun, this.sun.target, this.ambient);
+
+    const heightFade = exp(
+      positionWorld.y.sub(this.fogHeight).max(0).mul(-FOG_FALLOFF),
+    );
+    (scene as Scene & { fogNode?: Node | null }).fogNode = fog(
+      this.fogColor,
+      densityFogFactor(this.fogDensity).mul(heightFade),
+    );
+    this.update(DEFAULT_SKY_PARAMS, new Vector3());
+  }
+
+  // The light nodes keep their shadow setup, so new settings get a new sun.
+  setShadows(settings: ShadowSettings): void {
+    const current = this.shadows;
+    if (
+      settings.enabled === current.enabled &&
+      settings.cascades === current.cascades &&
+      settings.mapSize === current.mapSize &&
+      settings.maxDistance === current.maxDistance
+    ) {
+      return;
+    }
+    this.shadows = { ...settings };
+    const previous = this.sun;
+    this.sun = createSun(this.shadows);
+    this.sun.color.copy(previous.color);
+    this.sun.intensity = previous.intensity;
+    this.sun.position.copy(previous.position);
+    this.sun.target.position.copy(previous.target.position);
+    this.scene.add(this.sun, this.sun.target);
+    disposeSun(previous);
+  }
+
+  // `center` is the camera position: the dome follows it and the sun light
+  // shines towards it.
+  update(params: SkyParams, center: Vector3): void {
+    getSunDirection(
+      params.timeOfDay,
+      params.latitude,
+      params.dayOfYear,
+      this.sunDirection,
+    );
+    const elevation = this.sunDirection.y;
+    this.sky.sunPosition.value.copy(this.sunDirection);
+    this.sky.position.copy(center);
+
+    // Below the horizon the moon takes over: dim, bluish, from high up.
+    const day = MathUtils.smoothstep(elevation, -0.08, 0.12);
+    const golden = MathUtils.smoothstep(elevation, 0, 0.4);
+    this.sunColor.lerpColors(HORIZON_SUN, ZENITH_SUN, golden);
+    this.sunColor.lerp(NIGHT_SKY, 1 - day);
+    this.sun.color.copy(this.sunColor);
+    this.sun.intensity = MathUtils.lerp(NIGHT_INTENSITY, SUN_INTENSITY, day);
+    this.sun.target.position.copy(center);
+    if (elevation > -0.08) {
+      this.sun.position.copy(this.sunDirection);
+    } else {
+      this.sun.position.set(-this.sunDirection.x, 1, -this.sunDirection.z);
+    }
+    this.sun.position.normalize().multiplyScalar(SUN_DISTANCE).add(center);
+
+    const dusk = 1 - Math.abs(MathUtils.clamp(elevation * 4, -1, 1));
+    const ambient = this.ambient;
+    ambient.color.lerpColors(NIGHT_SKY, DAY_SKY, day);
+    ambient.color.lerp(DUSK_SKY, dusk * 0.6);
+    ambient.groundColor.lerpColors(NIGHT_GROUND, DAY_GROUND, day);
+    ambient.groundColor.lerp(DUSK_GROUND, dusk * 0.6);
+    ambient.intensity = MathUtils.lerp(NIGHT_INTENSITY, AMBIENT_INTENSITY, day);
+
+    // The fog takes the colour of the sky near the horizon.
+    this.fogColor.value
+      .copy(ambient.color)
+      .lerp(this.sunColor, dusk * 0.3)
+      .multiplyScalar(MathUtils.lerp(0.25, 1, day));
+    this.fogDensity.value = Math.max(0, params.fogDensity);
+    this.fogHeight.value = params.fogHeight;
+  }
+
+  dispose(): void {
+    this.sky.geometry.dispose();
+    this.sky.material.dispose();
+    disposeSun(this.sun);
+    this.ambient.dispose();
+  }
+}
+
+// Direction towards the sun at the given local solar time, in world space:
+// +X east, -Z north, +Y up.
+export function getSunDirection(
+  timeOfDay: number,
+  latitude: number,
+  dayOfYear: number,
+  target = new Vector3(),
+): Vector3 {
+  const declination =
+    MathUtils.degToRad(-23.44) *
+    Math.cos(((2 * Math.PI) / 365) * (dayOfYear + 10));
+  const hourAngle = MathUtils.degToRad((timeOfDay - 12) * 15);
+  const phi = MathUtils.degToRad(latitude);
+
+  const east = -Math.cos(declination) * Math.sin(hourAngle);
+  const north =
+    Math.cos(phi) * Math.sin(declination) -
+    Math.sin(phi) * Math.cos(declination) * Math.cos(hourAngle);
+  const up =
+    Math.sin(phi) * Math.sin(declination) +
+    Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle);
+  return target.set(east, up, -north).normalize();
+}
+
+function createSun(shadows: ShadowSettings) {
+  const sun = new DirectionalLight(0xffffff, SUN_INTENSITY);
+  if (!shadows.enabled) return sun;
+  const cascades = Math.max(1, Math.min(4, Math.round(shadows.cascades)));
+  sun.castShadow = true;
+  sun.shadow.mapSize.set(shadows.mapSize, shadows.mapSize);
+  sun.shadow.camera.near = 0.5;
+  sun.shadow.camera.far = shadows.maxDistance * 2 + SHADOW_MARGIN;
+  sun.shadow.bias = -0.0005;
+  sun.shadow.normalBias = 0.02;
+  const csm = new CSMShadowNode(sun, {
+    cascades,
+    maxFar: shadows.maxDistance,
+    mode: "practical",
+    lightMargin: SHADOW_MARGIN,
+  });
+  csm.fade = true;
+  sun.shadow.shadowNode = csm;
+  return sun;
+}
+
+function disposeSun(sun: DirectionalLight) {
+  // The cascade lights join the scene on their first frame, if they got one.
+  const csm = sun.shadow.shadowNode;
+  if (csm instanceof CSMShadowNode) {
+    for (const light of csm.lights) light.parent?.remove(light.target, light);
+    csm.lights.length = 0;
+    csm.dispose();
+  }
+  sun.parent?.remove(sun.target, sun);
+  sun.dispose();
+}
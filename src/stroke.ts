@@ -0,0 +1,160 @@
+// Turns pointer samples into evenly spaced brush dabs whose strength depends
+// on elapsed time, not on how often the browser delivers pointer events.
+
+export type StrokeSample = {
+  x: number; // brush space (heightfield texels)
+  y: number;
+  time: number; // ms, same clock as PointerEvent.timeStamp
+  pressure: number; // 0..1, 1 for devices without pressure
+  tilt: number; // 0 = upright pen, 1 = lying flat
+};
+
+export type StrokeDab = {
+  x: number;
+  y: number;
+  radiusScale: number;
+  strengthScale: number;
+};
+
+export type StrokeOptions = {
+  spacing: number; // dab distance as a fraction of the radius
+  pressureRadius: boolean;
+  pressureStrength: boolean;
+  tiltRadius: boolean;
+};
+
+// Strength 1 per dab at this rate matches the old one-dab-per-mousemove feel.
+const REFERENCE_DAB_RATE = 60;
+const MIN_PRESSURE_RADIUS = 0.25;
+// Cap for a single dab after a long hitch (tab switch, GC pause...).
+const MAX_DAB_STRENGTH = 2;
+
+export class StrokeEngine {
+  private options: StrokeOptions;
+  private last: StrokeSample | null = null;
+  // Distance walked since the last dab and time not yet spent on dabs.
+  private travelled = 0;
+  private pendingTime = 0;
+
+  constructor(options: StrokeOptions) {
+    this.options = options;
+  }
+
+  setOptions(options: StrokeOptions): void {
+    this.options = options;
+  }
+
+  get active(): boolean {
+    return this.last !== null;
+  }
+
+  begin(sample: StrokeSample): StrokeDab[] {
+    this.last = sample;
+    this.travelled = 0;
+    this.pendingTime = 0;
+    return [this.createDab(sample, 1)];
+  }
+
+  // Dabs along the segment from the previous sample, sharing the time elapsed
+  // since then.
+  addSample(sample: StrokeSample, radius: number): StrokeDab[] {
+    const last = this.last;
+    if (!last) return this.begin(sample);
+
+    this.pendingTime += Math.max(0, sample.time - last.time);
+    const spacing = Math.max(0.5, radius * this.options.spacing);
+    const dx = sample.x - last.x;
+    const dy = sample.y - last.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+
+    const positions: number[] = [];
+    let distance = spacing - this.travelled;
+    while (distance <= length) {
+      positions.push(distance / length);
+      distance += spacing;
+    }
+    this.travelled = length - (distance - spacing);
+    this.last = sample;
+
+    // Slow moves keep their time for the next dab (or for update()).
+    if (positions.length === 0) return [];
+
+    const strength = this.takeStrength() / positions.length;
+    return positions.map((t) =>
+      this.createDab(interpolate(last, sample, t), strength),
+    );
+  }
+
+  // Keeps depositing while the pointer rests without sending events.
+  update(time: number): StrokeDab[] {
+    const last = this.last;
+    if (!last) return [];
+    this.pendingTime += Math.max(0, time - last.time);
+    this.last = { ...last, time };
+    return this.flushStationary(this.last);
+  }
+
+  end(): void {
+    this.last = null;
+  }
+
+  private flushStationary(sample: StrokeSample): StrokeDab[] {
+    if (this.pendingTime * REFERENCE_DAB_RATE < 1000) return [];
+    return [this.createDab(sample, this.takeStrength())];
+  }
+
+  private takeStrength() {
+    const strength = (this.pendingTime / 1000) * REFERENCE_DAB_RATE;
+    this.pendingTime = 0;
+    return Math.min(MAX_DAB_STRENGTH, strength);
+  }
+
+  private createDab(sample: StrokeSample, strength: number): StrokeDab {
+    const { pressureRadius, pressureStrength, tiltRadius } = this.options;
+    let radiusScale = 1;
+    if (pressureRadius) {
+      radiusScale *=
+        MIN_PRESSURE_RADIUS + (1 - MIN_PRESSURE_RADIUS) * sample.pressure;
+    }
+    // A tilted pen paints with its side: wider and softer.
+    if (tiltRadius) {
+      radiusScale *= 1 + sample.tilt;
+    }
+    return {
+      x: sample.x,
+      y: sample.y,
+      radiusScale,
+      strengthScale: pressureStrength ? strength * sample.pressure : strength,
+    };
+  }
+}
+
+// Pressure and tilt for a pointer event; mice and touch without force report
+// full pressure so they behave as before.
+export function readPointerPressure(event: PointerEvent): {
+  pressure: number;
+  tilt: number;
+} {
+  if (event.pointerType !== "pen") return { pressure: 1, tilt: 0 };
+  const tiltX = (event.tiltX * Math.PI) / 180;
+  const tiltY = (event.tiltY * Math.PI) / 180;
+  const tilt = Math.min(
+    1,
+    Math.sqrt(tiltX * tiltX + tiltY * tiltY) / (Math.PI / 2),
+  );
+  return { pressure: event.pressure, tilt };
+}
+
+function interpolate(
+  a: StrokeSample,
+  b: StrokeSample,
+  t: number,
+): StrokeSample {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    time: a.time + (b.time - a.time) * t,
+    pressure: a.pressure + (b.pressure - a.pressure) * t,
+    tilt: a.tilt + (b.tilt - a.tilt) * t,
+  };
+}
@@ -1,11 +1,18 @@
 import {
   BufferAttribute,
+  BufferGeometry,
   Color,
   Mesh,
   MeshStandardMaterial,
   PlaneGeometry,
+  Vector3,
 } from "three";
-import { Heightfield } from "./heightfield";
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import {
+  getPaintedWeights,
+  LAYER_PAINT_CHANNELS,
+  LayerPaintMap,
+} from "./layerPaint";
 
 export function createTerrain(
   heightfield: Heightfield,
@@ -31,39 +38,109 @@ export function createTerrain(
     vertexColors: true,
   });
 
-  return new Mesh(geometry, material);
+  const mesh = new Mesh(geometry, material);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  return mesh;
 }
 
+// With a region only the rows it spans are rewritten and uploaded; normals
+// (and colors, see updateTerrainVertexColors) also change one texel around it.
 export function updateTerrainGeometryFromHeightfield(
-  geometry: PlaneGeometry,
+  geometry: BufferGeometry,
   heightfield: Heightfield,
   heightScale: number,
+  region?: HeightfieldRegion,
 ): void {
-  const position = geometry.getAttribute("position");
-  const widthSegments = heightfield.width - 1;
-  const heightSegments = heightfield.height - 1;
-  const verticesPerRow = widthSegments + 1;
+  const position = geometry.getAttribute("position") as BufferAttribute;
+  const normal = geometry.getAttribute("normal") as BufferAttribute;
+  const { minX, minY, maxX, maxY } = getUpdateRegion(heightfield, region);
+  const verticesPerRow = heightfield.width;
 
-  // The PlaneGeometry is built with (widthSegments + 1) vertices per row.
+  // The PlaneGeometry is built with heightfield.width vertices per row.
   // Vertex index -> (col, row):
   //   row = floor(index / verticesPerRow)
   //   col = index % verticesPerRow
-  for (let row = 0; row <= heightSegments; row++) {
-    for (let col = 0; col <= widthSegments; col++) {
+  for (let row = minY; row <= maxY; row++) {
+    for (let col = minX; col <= maxX; col++) {
       const vertexIndex = row * verticesPerRow + col;
       const height = heightfield.getHeight(col, row);
       position.setY(vertexIndex, height * heightScale);
+      writeHeightfieldNormal(
+        normal,
+        vertexIndex,
+        heightfield,
+        col,
+        row,
+        heightScale,
+      );
     }
   }
 
-  position.needsUpdate = true;
-  geometry.computeVertexNormals();
+  markRowsForUpload(position, heightfield, region, minY, maxY);
+  markRowsForUpload(normal, heightfield, region, minY, maxY);
 }
 
-export function updateTerrainVertexColors(
+// Normal at texel (x, y) from its neighbours, one-sided at the borders.
+export function writeHeightfieldNormal(
+  normal: BufferAttribute,
+  index: number,
+  hf: Heightfield,
+  x: number,
+  y: number,
+  heightScale: number,
+): void {
+  const xl = Math.max(0, x - 1);
+  const xr = Math.min(hf.width - 1, x + 1);
+  const yu = Math.max(0, y - 1);
+  const yd = Math.min(hf.height - 1, y + 1);
+  const dx =
+    ((hf.getHeight(xr, y) - hf.getHeight(xl, y)) / Math.max(1, xr - xl)) *
+    heightScale;
+  const dz =
+    ((hf.getHeight(x, yd) - hf.getHeight(x, yu)) / Math.max(1, yd - yu)) *
+    heightScale;
+  normalVector.set(-dx, 1, -dz).normalize();
+  normal.setXYZ(index, normalVector.x, normalVector.y, normalVector.z);
+}
+
+// Central-difference normals from a height lookup that may read past the grid
+// edges, so neighbouring tiles sharing an edge get identical normals.
+export function updateTerrainNormals(
   geometry: PlaneGeometry,
+  width: number,
+  height: number,
+  heightAt: (col: number, row: number) => number,
+  heightScale: number,
+): void {
+  const normal = geometry.getAttribute("normal") as BufferAttribute;
+  const vector = new Vector3();
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const dx = (heightAt(col + 1, row) - heightAt(col - 1, row)) * 0.5;
+      const dz = (heightAt(col, row + 1) - heightAt(col, row - 1)) * 0.5;
+      vector.set(-dx * heightScale, 1, -dz * heightScale).normalize();
+      normal.setXYZ(row * width + col, vector.x, vector.y, vector.z);
+    }
+  }
+  normal.needsUpdate = true;
+}
+
+export type TerrainColorParams = {
+  heightLow: number;
+  heightHigh: number;
+  slopeThreshold: number;
+  // Painted layers drawn over the height/slope palette, one colour per layer.
+  paint?: { map: LayerPaintMap; colors: string[] };
+};
+
+// Without a region every vertex is recolored (also patch geometries that
+// don't follow the heightfield layout); with one, only the rows around it.
+export function updateTerrainVertexColors(
+  geometry: BufferGeometry,
   heightfield: Heightfield,
-  params: { heightLow: number; heightHigh: number; slopeThreshold: number },
+  params: TerrainColorParams,
+  region?: HeightfieldRegion,
 ): void {
   const { heightLow, heightHigh, slopeThreshold } = params;
   const position = geometry.getAttribute("position");
@@ -74,7 +151,9 @@ export function updateTerrainVertexColors(
   if (!colorAttr || colorAttr.count !== vertexCount) {
     colorAttr = new BufferAttribute(new Float32Array(vertexCount * 3), 3);
     geometry.setAttribute("color", colorAttr);
+    region = undefined;
   }
+  const colors = colorAttr;
 
   const lowFlat = new Color("#3f4a2f");
   const mid = new Color("#6f8b4e");
@@ -82,8 +161,14 @@ export function updateTerrainVertexColors(
   const steep = new Color("#7d7d7d");
 
   const heightRange = Math.max(1e-5, heightHigh - heightLow);
+  const paint = params.paint;
+  const paintColors = paint?.colors.map((color) => new Color(color)) ?? [];
+  const paintWeights = new Float32Array(LAYER_PAINT_CHANNELS);
+  const paintColor = new Color();
+  // Texels come from the uv, so LOD patches find theirs too.
+  const uv = geometry.getAttribute("uv");
 
-  for (let i = 0; i < vertexCount; i++) {
+  const writeColor = (i: number) => {
     const worldHeight = position.getY(i);
     const hNorm = clamp01((worldHeight - heightLow) / heightRange);
 
@@ -94,8 +179,37 @@ export function updateTerrainVertexColors(
 
     const flatColor = sampleHeightPalette(hNorm, lowFlat, mid, high);
     const finalColor = flatColor.clone().lerp(steep, steepWeight);
+    if (paint && uv) {
+      const col = Math.round(uv.getX(i) * (paint.map.width - 1));
+      const row = Math.round((1 - uv.getY(i)) * (paint.map.height - 1));
+      const painted = getPaintedWeights(
+        paint.map,
+        row * paint.map.width + col,
+        paintWeights,
+      );
+      if (painted > 0) {
+        finalColor.multiplyScalar(Math.max(0, 1 - painted));
+        paintColors.forEach((color, c) => {
+          paintColor.copy(color).multiplyScalar(paintWeights[c]);
+          finalColor.add(paintColor);
+        });
+      }
+    }
 
-    colorAttr.setXYZ(i, finalColor.r, finalColor.g, finalColor.b);
+    colors.setXYZ(i, finalColor.r, finalColor.g, finalColor.b);
+  };
+
+  if (!region) {
+    for (let i = 0; i < vertexCount; i++) writeColor(i);
+    colorAttr.clearUpdateRanges();
+  } else {
+    const { minX, minY, maxX, maxY } = getUpdateRegion(heightfield, region);
+    for (let row = minY; row <= maxY; row++) {
+      for (let col = minX; col <= maxX; col++) {
+        writeColor(row * heightfield.width + col);
+      }
+    }
+    markRowsForUpload(colorAttr, heightfield, region, minY, maxY);
   }
 
   colorAttr.needsUpdate = true;
@@ -103,6 +217,45 @@ export function updateTerrainVertexColors(
     true;
 }
 
+// The region grown by the one texel its normals reach, clamped to the grid.
+function getUpdateRegion(
+  heightfield: Heightfield,
+  region: HeightfieldRegion | undefined,
+): HeightfieldRegion {
+  if (!region) {
+    return {
+      minX: 0,
+      minY: 0,
+      maxX: heightfield.width - 1,
+      maxY: heightfield.height - 1,
+    };
+  }
+  return {
+    minX: Math.max(0, region.minX - 1),
+    minY: Math.max(0, region.minY - 1),
+    maxX: Math.min(heightfield.width - 1, region.maxX + 1),
+    maxY: Math.min(heightfield.height - 1, region.maxY + 1),
+  };
+}
+
+// One contiguous range over whole rows: fewer, larger copies than a range
+// per row. A full update drops ranges left over from partial ones.
+function markRowsForUpload(
+  attribute: BufferAttribute,
+  heightfield: Heightfield,
+  region: HeightfieldRegion | undefined,
+  minY: number,
+  maxY: number,
+) {
+  if (region) {
+    const rowSize = heightfield.width * attribute.itemSize;
+    attribute.addUpdateRange(minY * rowSize, (maxY - minY + 1) * rowSize);
+  } else {
+    attribute.clearUpdateRanges();
+  }
+  attribute.needsUpdate = true;
+}
+
 function sampleHeightPalette(
   t: number,
   low: Color,
@@ -118,3 +271,5 @@ function sampleHeightPalette(
 function clamp01(value: number) {
   return Math.min(1, Math.max(0, value));
 }
+
+const normalVector = new Vector3();
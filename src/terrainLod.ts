@@ -0,0 +1,458 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Camera,
+  Group,
+  Mesh,
+  Vector3,
+} from "three";
+import {
+  MeshStandardNodeMaterial,
+  Node,
+  NodeMaterial,
+  TSL,
+} from "three/webgpu";
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import {
+  TerrainColorParams,
+  updateTerrainVertexColors,
+  writeHeightfieldNormal,
+} from "./terrain";
+
+export type TerrainLodOptions = {
+  heightScale: number;
+  patchSize?: number; // quads per patch side at every level, default 32
+  // Distance drawn at full resolution, default 4 * patchSize. Ranges much
+  // shorter than the node size let levels meet before they finish morphing.
+  baseRange?: number;
+  morphStart?: number; // fraction of a level range where morphing starts, default 0.85
+};
+
+const {
+  attribute,
+  cameraPosition: cameraPositionNode,
+  modelWorldMatrix,
+  positionGeometry,
+  vec3,
+  vec4,
+} = TSL;
+
+// A selected quadtree node: patchSize x patchSize quads spaced 2^level texels.
+type LodNode = {
+  level: number;
+  x: number;
+  y: number;
+};
+
+type LodPatch = {
+  node: LodNode;
+  mesh: Mesh;
+  heightsDirty: boolean;
+};
+
+// CDLOD-style terrain: a quadtree of fixed-size patches picked by camera
+// distance. Vertices morph towards the parent grid before a node is replaced by
+// its parent, so levels meet without cracks; skirts hide any leftover gaps.
+// The morph runs in the vertex shader: patch buffers are only rewritten when
+// their heights change.
+export class TerrainLod {
+  readonly group = new Group();
+
+  private readonly heightfield: Heightfield;
+  private readonly heightScale: number;
+  private readonly patchSize: number;
+  private readonly baseRange: number;
+  private readonly morphStart: number;
+  private readonly levels: number;
+  private readonly morphPosition = createMorphPosition();
+  private readonly material: MeshStandardNodeMaterial;
+  // Morphing copy of the material set with setMaterial, and its source.
+  private customMaterial: NodeMaterial | null = null;
+  private customSource: NodeMaterial | null = null;
+  private readonly patches = new Map<string, LodPatch>();
+  private colors: TerrainColorParams;
+  private minHeight = 0;
+  private maxHeight = 0;
+  private boundsDirty = true;
+
+  constructor(
+    heightfield: Heightfield,
+    colors: TerrainColorParams,
+    options: TerrainLodOptions,
+  ) {
+    this.heightfield = heightfield;
+    this.colors = colors;
+    this.heightScale = options.heightScale;
+    this.patchSize = options.patchSize ?? 32;
+    this.baseRange = options.baseRange ?? this.patchSize * 4;
+    this.morphStart = options.morphStart ?? 0.85;
+
+    const quads = Math.max(heightfield.width, heightfield.height) - 1;
+    this.levels = Math.max(
+      0,
+      Math.ceil(Math.log2(Math.max(1, quads / this.patchSize))),
+    );
+    this.material = new MeshStandardNodeMaterial({
+      roughness: 0.9,
+      metalness: 0.05,
+      vertexColors: true,
+    });
+    this.material.positionNode = this.morphPosition;
+  }
+
+  // Heights changed (sculpt, undo, import...): patches over the region (all
+  // of them without one) re-read them on the next update.
+  invalidate(region?: HeightfieldRegion): void {
+    if (region && !this.boundsDirty) {
+      this.growBounds(region);
+    } else {
+      this.boundsDirty = true;
+    }
+    for (const patch of this.patches.values()) {
+      if (!region || this.overlaps(patch.node, region)) {
+        patch.heightsDirty = true;
+      }
+    }
+  }
+
+  setColorParams(colors: TerrainColorParams): void {
+    this.colors = colors;
+    this.invalidate();
+  }
+
+  // Another material for all patches (e.g. textured biomes); null restores the
+  // vertex-coloured one. Patches draw a copy with the morph added, which shares
+  // the original's nodes and uniforms; the caller keeps ownership of the
+  // original.
+  setMaterial(material: NodeMaterial | null): void {
+    if (material === this.customSource) return;
+    this.customMaterial?.dispose();
+    this.customSource = material;
+    this.customMaterial = material ? material.clone() : null;
+    if (this.customMaterial) {
+      this.customMaterial.positionNode = this.morphPosition;
+    }
+    for (const patch of this.patches.values()) {
+      patch.mesh.material = this.getMaterial();
+    }
+  }
+
+  getMeshes(): Mesh[] {
+    return Array.from(this.patches.values(), (patch) => patch.mesh);
+  }
+
+  update(camera: Camera): void {
+    if (this.boundsDirty) this.updateBounds();
+    camera.getWorldPosition(cameraPosition);
+
+    const selected: LodNode[] = [];
+    this.select(this.levels, 0, 0, selected);
+
+    const keep = new Set<string>();
+    for (const node of selected) {
+      const key = `${node.level}:${node.x}:${node.y}`;
+      keep.add(key);
+      if (!this.patches.has(key)) {
+        const mesh = new Mesh(this.createPatchGeometry(), this.getMaterial());
+        // Patches are small and already picked against the camera.
+        mesh.frustumCulled = false;
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        this.group.add(mesh);
+        this.patches.set(key, { node, mesh, heightsDirty: true });
+      }
+    }
+    for (const [key, patch] of this.patches) {
+      if (keep.has(key)) continue;
+      this.group.remove(patch.mesh);
+      patch.mesh.geometry.dispose();
+      this.patches.delete(key);
+    }
+
+    for (const patch of this.patches.values()) {
+      if (!patch.heightsDirty) continue;
+      this.writePositions(patch);
+      updateTerrainVertexColors(
+        patch.mesh.geometry,
+        this.heightfield,
+        this.colors,
+      );
+      patch.heightsDirty = false;
+    }
+  }
+
+  dispose(): void {
+    for (const patch of this.patches.values()) {
+      patch.mesh.geometry.dispose();
+    }
+    this.patches.clear();
+    this.group.clear();
+    this.material.dispose();
+    this.customMaterial?.dispose();
+  }
+
+  private getMaterial() {
+    return this.customMaterial ?? this.material;
+  }
+
+  private select(level: number, x: number, y: number, out: LodNode[]) {
+    const { width, height } = this.heightfield;
+    if (x >= width - 1 || y >= height - 1) return;
+    const span = this.patchSize << level;
+
+    const distance = this.distanceToNode(x, y, span);
+    if (level > 0 && distance < this.getRange(level - 1)) {
+      const half = span >> 1;
+      this.select(level - 1, x, y, out);
+      this.select(level - 1, x + half, y, out);
+      this.select(level - 1, x, y + half, out);
+      this.select(level - 1, x + half, y + half, out);
+      return;
+    }
+    out.push({ level, x, y });
+  }
+
+  // Normals read one texel past the region, so patches touching it count too.
+  private overlaps(node: LodNode, region: HeightfieldRegion) {
+    const span = this.patchSize << node.level;
+    return (
+      node.x <= region.maxX + 1 &&
+      node.x + span >= region.minX - 1 &&
+      node.y <= region.maxY + 1 &&
+      node.y + span >= region.minY - 1
+    );
+  }
+
+  private getRange(level: number) {
+    return this.baseRange * Math.pow(2, level);
+  }
+
+  private distanceToNode(x: number, y: number, span: number) {
+    const { width, height } = this.heightfield;
+    const offsetX = (width - 1) * 0.5;
+    const offsetZ = (height - 1) * 0.5;
+    const minX = x - offsetX;
+    const maxX = Math.min(x + span, width - 1) - offsetX;
+    const minZ = y - offsetZ;
+    const maxZ = Math.min(y + span, height - 1) - offsetZ;
+    const dx = Math.max(minX - cameraPosition.x, 0, cameraPosition.x - maxX);
+    const dy = Math.max(
+      this.minHeight - cameraPosition.y,
+      0,
+      cameraPosition.y - this.maxHeight,
+    );
+    const dz = Math.max(minZ - cameraPosition.z, 0, cameraPosition.z - maxZ);
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  private updateBounds() {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of this.heightfield.data) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    this.minHeight = min * this.heightScale;
+    this.maxHeight = max * this.heightScale;
+    this.boundsDirty = false;
+  }
+
+  // Sculpting only widens the bounds: a full rescan of a large map per dab
+  // costs more than slightly loose node boxes.
+  private growBounds(region: HeightfieldRegion) {
+    const hf = this.heightfield;
+    for (let y = region.minY; y <= region.maxY; y++) {
+      for (let x = region.minX; x <= region.maxX; x++) {
+        const h = hf.getHeight(x, y) * this.heightScale;
+        if (h < this.minHeight) this.minHeight = h;
+        if (h > this.maxHeight) this.maxHeight = h;
+      }
+    }
+  }
+
+  private createPatchGeometry(): BufferGeometry {
+    const n = this.patchSize;
+    const row = n + 1;
+    const gridCount = row * row;
+    const vertexCount = gridCount + 4 * row;
+    const geometry = new BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new BufferAttribute(new Float32Array(vertexCount * 3), 3),
+    );
+    geometry.setAttribute(
+      "normal",
+      new BufferAttribute(new Float32Array(vertexCount * 3), 3),
+    );
+    geometry.setAttribute(
+      "uv",
+      new BufferAttribute(new Float32Array(vertexCount * 2), 2),
+    );
+    // Read by createMorphPosition.
+    geometry.setAttribute(
+      "morph",
+      new BufferAttribute(new Float32Array(vertexCount * 3), 3),
+    );
+
+    const indices: number[] = [];
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const a = j * row + i;
+        const b = a + row;
+        // Same diagonal as PlaneGeometry, which the morph targets rely on.
+        indices.push(a, b, a + 1, b, b + 1, a + 1);
+      }
+    }
+    // Skirts: each border walked so that the outside is on the same side.
+    const borders = this.getBorderIndices();
+    borders.forEach((border, side) => {
+      const skirtStart = gridCount + side * row;
+      for (let k = 0; k < n; k++) {
+        const t0 = border[k];
+        const t1 = border[k + 1];
+        const s0 = skirtStart + k;
+        const s1 = skirtStart + k + 1;
+        indices.push(t0, t1, s0, t1, s1, s0);
+      }
+    });
+    geometry.setIndex(indices);
+    return geometry;
+  }
+
+  // Grid indices of the four borders: top +x, right +z, bottom -x, left -z.
+  private getBorderIndices(): number[][] {
+    const n = this.patchSize;
+    const row = n + 1;
+    const top: number[] = [];
+    const right: number[] = [];
+    const bottom: number[] = [];
+    const left: number[] = [];
+    for (let k = 0; k <= n; k++) {
+      top.push(k);
+      right.push(k * row + n);
+      bottom.push(n * row + (n - k));
+      left.push((n - k) * row);
+    }
+    return [top, right, bottom, left];
+  }
+
+  private writePositions(patch: LodPatch) {
+    const { node } = patch;
+    const hf = this.heightfield;
+    const geometry = patch.mesh.geometry;
+    const position = geometry.getAttribute("position") as BufferAttribute;
+    const normal = geometry.getAttribute("normal") as BufferAttribute;
+    const uv = geometry.getAttribute("uv") as BufferAttribute;
+    const morph = geometry.getAttribute("morph") as BufferAttribute;
+    const n = this.patchSize;
+    const row = n + 1;
+    const step = 1 << node.level;
+    const offsetX = (hf.width - 1) * 0.5;
+    const offsetZ = (hf.height - 1) * 0.5;
+    const range = this.getRange(node.level);
+    const morphFrom = range * this.morphStart;
+    const morphScale = 1 / Math.max(1e-5, range - morphFrom);
+    // The root has no parent to morph into.
+    const canMorph = node.level < this.levels;
+
+    for (let j = 0; j <= n; j++) {
+      for (let i = 0; i <= n; i++) {
+        const tx = Math.min(node.x + i * step, hf.width - 1);
+        const ty = Math.min(node.y + j * step, hf.height - 1);
+        const h = hf.getHeight(tx, ty);
+        const parentOffset =
+          canMorph && (i % 2 === 1 || j % 2 === 1)
+            ? this.getParentHeight(node, i, j) - h
+            : 0;
+
+        const index = j * row + i;
+        position.setXYZ(
+          index,
+          tx - offsetX,
+          h * this.heightScale,
+          ty - offsetZ,
+        );
+        morph.setXYZ(
+          index,
+          parentOffset * this.heightScale,
+          morphFrom,
+          morphScale,
+        );
+        // Full-resolution normals keep the shading detail on coarse patches.
+        writeHeightfieldNormal(normal, index, hf, tx, ty, this.heightScale);
+        uv.setXY(index, tx / (hf.width - 1), 1 - ty / (hf.height - 1));
+      }
+    }
+
+    const skirtDepth = step * this.heightScale * 0.5 + 0.5;
+    this.getBorderIndices().forEach((border, side) => {
+      const skirtStart = row * row + side * row;
+      border.forEach((source, k) => {
+        const index = skirtStart + k;
+        position.setXYZ(
+          index,
+          position.getX(source),
+          position.getY(source) - skirtDepth,
+          position.getZ(source),
+        );
+        normal.setXYZ(
+          index,
+          normal.getX(source),
+          normal.getY(source),
+          normal.getZ(source),
+        );
+        uv.setXY(index, uv.getX(source), uv.getY(source));
+        morph.setXYZ(
+          index,
+          morph.getX(source),
+          morph.getY(source),
+          morph.getZ(source),
+        );
+      });
+    });
+
+    position.needsUpdate = true;
+    normal.needsUpdate = true;
+    uv.needsUpdate = true;
+    morph.needsUpdate = true;
+    geometry.computeBoundingSphere();
+  }
+
+  // Height the parent level shows at grid vertex (i, j): odd vertices lie
+  // halfway along a parent edge or its diagonal.
+  private getParentHeight(node: LodNode, i: number, j: number) {
+    const hf = this.heightfield;
+    const step = 1 << node.level;
+    const sample = (gi: number, gj: number) =>
+      hf.getHeight(
+        Math.min(node.x + gi * step, hf.width - 1),
+        Math.min(node.y + gj * step, hf.height - 1),
+      );
+    const oddI = i % 2 === 1;
+    const oddJ = j % 2 === 1;
+    if (oddI && oddJ) {
+      // Diagonal from (i - 1, j + 1) to (i + 1, j - 1), as in the index buffer.
+      return (sample(i - 1, j + 1) + sample(i + 1, j - 1)) * 0.5;
+    }
+    if (oddI) {
+      return (sample(i - 1, j) + sample(i + 1, j)) * 0.5;
+    }
+    return (sample(i, j - 1) + sample(i, j + 1)) * 0.5;
+  }
+}
+
+const cameraPosition = new Vector3();
+
+// Odd grid vertices slide towards the parent surface over the end of their
+// level's range. "morph" holds the height offset to the parent surface, the
+// distance the morph starts at and 1 / the distance it takes.
+function createMorphPosition(): Node {
+  const morph = attribute("morph", "vec3");
+  const world = modelWorldMatrix.mul(vec4(positionGeometry, 1)).xyz;
+  const k = world
+    .distance(cameraPositionNode)
+    .sub(morph.y)
+    .mul(morph.z)
+    .clamp(0, 1);
+  return positionGeometry.add(vec3(0, morph.x.mul(k), 0));
+}
@@ -0,0 +1,191 @@
+import {
+  ClampToEdgeWrapping,
+  DataTexture,
+  LinearFilter,
+  RGBAFormat,
+  UnsignedByteType,
+  Vector2,
+} from "three";
+
+// Grass pushed aside by whatever walks through it: a small map that follows
+// the view, stamped by actors every frame and relaxing back to upright.
+
+// A disc of influence on the ground, in world units.
+export type TrampleActor = {
+  x: number;
+  z: number;
+  radius: number;
+  strength: number; // 0..1, 1 lays the blades flat at the centre
+};
+
+// Texels per side and world units covered by the map.
+export const TRAMPLE_MAP_SIZE = 128;
+export const TRAMPLE_EXTENT = 64;
+
+// Below this the map is considered upright and is not uploaded any more.
+const REST_EPSILON = 1 / 255;
+
+export class TrampleMap {
+  // RG: push direction * amount on XZ (0.5 = none), B: flattening, A: unused.
+  readonly texture: DataTexture;
+  // World XZ of the map corner and the size it covers.
+  readonly origin = new Vector2();
+  readonly size = new Vector2(TRAMPLE_EXTENT, TRAMPLE_EXTENT);
+
+  // Seconds for a trampled blade to get most of the way back up.
+  recovery = 2;
+
+  private pushX = new Float32Array(TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE);
+  private pushZ = new Float32Array(TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE);
+  private flatten = new Float32Array(TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE);
+  private resting = false;
+  private placed = false;
+
+  constructor() {
+    const data = new Uint8Array(TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE * 4);
+    this.texture = new DataTexture(
+      data,
+      TRAMPLE_MAP_SIZE,
+      TRAMPLE_MAP_SIZE,
+      RGBAFormat,
+      UnsignedByteType,
+    );
+    this.texture.wrapS = this.texture.wrapT = ClampToEdgeWrapping;
+    this.texture.magFilter = this.texture.minFilter = LinearFilter;
+    this.encode();
+  }
+
+  // Moves the map under `centerX, centerZ` (keeping the trails already there),
+  // lets the blades recover for `deltaSeconds` and stamps the actors.
+  update(
+    deltaSeconds: number,
+    centerX: number,
+    centerZ: number,
+    actors: TrampleActor[],
+  ): void {
+    this.follow(centerX, centerZ);
+    const count = TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE;
+    if (this.resting && actors.length === 0) return;
+
+    const keep = Math.exp(-deltaSeconds / Math.max(0.05, this.recovery));
+    let active = false;
+    for (let i = 0; i < count; i++) {
+      this.pushX[i] *= keep;
+      this.pushZ[i] *= keep;
+      this.flatten[i] *= keep;
+      if (this.flatten[i] > REST_EPSILON) active = true;
+    }
+    for (const actor of actors) {
+      if (this.stamp(actor)) active = true;
+    }
+    if (!active && this.resting) return;
+    if (active) {
+      this.resting = false;
+      this.encode();
+    } else {
+      // Snap the last few levels back so nothing stays slightly bent.
+      this.clear();
+    }
+  }
+
+  clear(): void {
+    this.pushX.fill(0);
+    this.pushZ.fill(0);
+    this.flatten.fill(0);
+    this.resting = true;
+    this.encode();
+  }
+
+  dispose(): void {
+    this.texture.dispose();
+  }
+
+  private follow(centerX: number, centerZ: number) {
+    const texel = this.size.x / TRAMPLE_MAP_SIZE;
+    const originX = Math.floor((centerX - this.size.x * 0.5) / texel) * texel;
+    const originZ = Math.floor((centerZ - this.size.y * 0.5) / texel) * texel;
+    if (this.placed && originX === this.origin.x && originZ === this.origin.y) {
+      return;
+    }
+    const shiftX = Math.round((originX - this.origin.x) / texel);
+    const shiftZ = Math.round((originZ - this.origin.y) / texel);
+    this.origin.set(originX, originZ);
+    if (!this.placed) {
+      this.placed = true;
+      return;
+    }
+    if (this.resting) return;
+    this.pushX = shiftGrid(this.pushX, shiftX, shiftZ);
+    this.pushZ = shiftGrid(this.pushZ, shiftX, shiftZ);
+    this.flatten = shiftGrid(this.flatten, shiftX, shiftZ);
+    this.encode();
+  }
+
+  // Keeps the strongest push in every texel; returns whether it touched any.
+  private stamp(actor: TrampleActor): boolean {
+    const strength = Math.min(1, actor.strength);
+    if (strength <= 0 || actor.radius <= 0) return false;
+    const texel = this.size.x / TRAMPLE_MAP_SIZE;
+    const cx = (actor.x - this.origin.x) / texel - 0.5;
+    const cz = (actor.z - this.origin.y) / texel - 0.5;
+    const r = actor.radius / texel;
+    // The border stays upright: clamped lookups outside the map read it.
+    const minX = Math.max(1, Math.floor(cx - r));
+    const maxX = Math.min(TRAMPLE_MAP_SIZE - 2, Math.ceil(cx + r));
+    const minZ = Math.max(1, Math.floor(cz - r));
+    const maxZ = Math.min(TRAMPLE_MAP_SIZE - 2, Math.ceil(cz + r));
+    let touched = false;
+    for (let z = minZ; z <= maxZ; z++) {
+      for (let x = minX; x <= maxX; x++) {
+        const dx = x - cx;
+        const dz = z - cz;
+        const d = Math.sqrt(dx * dx + dz * dz) / r;
+        if (d >= 1) continue;
+        const amount = strength * (1 - d * d);
+        const i = z * TRAMPLE_MAP_SIZE + x;
+        if (amount <= this.flatten[i]) continue;
+        // Away from the centre; right under it the blades just lie down.
+        const length = Math.max(1e-5, Math.sqrt(dx * dx + dz * dz));
+        const away = Math.min(1, d * 4);
+        this.pushX[i] = (dx / length) * amount * away;
+        this.pushZ[i] = (dz / length) * amount * away;
+        this.flatten[i] = amount;
+        touched = true;
+      }
+    }
+    return touched;
+  }
+
+  private encode() {
+    const data = this.texture.image.data as Uint8Array;
+    const count = TRAMPLE_MAP_SIZE * TRAMPLE_MAP_SIZE;
+    for (let i = 0; i < count; i++) {
+      data[i * 4] = encodeSigned(this.pushX[i]);
+      data[i * 4 + 1] = encodeSigned(this.pushZ[i]);
+      data[i * 4 + 2] = Math.round(Math.min(1, this.flatten[i]) * 255);
+      data[i * 4 + 3] = 255;
+    }
+    this.texture.needsUpdate = true;
+  }
+}
+
+// Byte the shader decodes as (value - 128 / 255) * 2.
+function encodeSigned(value: number) {
+  return Math.max(0, Math.min(255, Math.round(128 + value * 127.5)));
+}
+
+// Grid content as seen from an origin moved by (shiftX, shiftZ) texels.
+function shiftGrid(grid: Float32Array, shiftX: number, shiftZ: number) {
+  const size = TRAMPLE_MAP_SIZE;
+  const shifted = new Float32Array(grid.length);
+  for (let z = 0; z < size; z++) {
+    const sz = z + shiftZ;
+    if (sz < 0 || sz >= size) continue;
+    for (let x = 0; x < size; x++) {
+      const sx = x + shiftX;
+      if (sx < 0 || sx >= size) continue;
+      shifted[z * size + x] = grid[sz * size + sx];
+    }
+  }
+  return shifted;
+}
@@ -0,0 +1,263 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  ConeGeometry,
+  CylinderGeometry,
+  DynamicDrawUsage,
+  Euler,
+  InstancedMesh,
+  Matrix4,
+  MeshStandardMaterial,
+  Quaternion,
+  Vector3,
+} from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { Heightfield, HeightfieldRegion } from "./heightfield";
+import {
+  forEachScatterPoint,
+  getScatterTile,
+  getSpotRandom,
+  getTileSizeForDensity,
+} from "./scatter";
+import { getWaterDepth, WaterData } from "./waterData";
+
+// Positions are in heightfield texel coordinates so trees follow the terrain
+// through sculpting, undo and world reloads.
+export type TreeInstance = {
+  x: number;
+  y: number;
+  scale: number;
+  yaw: number;
+};
+
+export type TreePlacementRules = {
+  minHeight: number;
+  maxHeight: number;
+  maxSlope: number;
+  water?: Pick<WaterData, "width" | "height" | "depth"> | null;
+};
+
+export type TreeBrushConfig = {
+  radius: number;
+  density: number; // 0..1, fraction of the scatter spots filled
+  spacing?: number; // min distance between trunks in texels, default 3
+};
+
+export const MAX_TREES = 10_000;
+
+const TREE_SCATTER_SEED = 11;
+const TREE_SCATTER_POINTS = 1024;
+
+export function paintTrees(
+  trees: TreeInstance[],
+  heightfield: Heightfield,
+  centerX: number,
+  centerY: number,
+  config: TreeBrushConfig,
+  rules: TreePlacementRules,
+): boolean {
+  const spacing = config.spacing ?? 3;
+  // The same blue-noise spots under every dab: going over an area again
+  // fills the ones still free instead of crowding it.
+  const tile = getScatterTile(TREE_SCATTER_SEED, TREE_SCATTER_POINTS);
+  const radiusSq = config.radius * config.radius;
+  let changed = false;
+
+  forEachScatterPoint(
+    tile,
+    // Average spot spacing; hasTreeWithin keeps the minimum.
+    getTileSizeForDensity(tile, 1 / (spacing * spacing)),
+    centerX - config.radius,
+    centerY - config.radius,
+    centerX + config.radius,
+    centerY + config.radius,
+    (x, y, rank, tileX, tileY, index) => {
+      if (rank >= config.density || trees.length >= MAX_TREES) return;
+      const dx = x - centerX;
+      const dy = y - centerY;
+      if (dx * dx + dy * dy > radiusSq) return;
+      if (x < 0 || y < 0) return;
+      if (x > heightfield.width - 1 || y > heightfield.height - 1) return;
+      if (!canPlaceTree(heightfield, x, y, rules)) return;
+      if (hasTreeWithin(trees, x, y, spacing)) return;
+
+      const size = getSpotRandom(TREE_SCATTER_SEED, tileX, tileY, index, 1);
+      const turn = getSpotRandom(TREE_SCATTER_SEED, tileX, tileY, index, 2);
+      trees.push({
+        x,
+        y,
+        scale: 0.7 + size * 0.6,
+        yaw: turn * Math.PI * 2,
+      });
+      changed = true;
+    },
+  );
+  return changed;
+}
+
+export function eraseTrees(
+  trees: TreeInstance[],
+  centerX: number,
+  centerY: number,
+  radius: number,
+): boolean {
+  const before = trees.length;
+  const radiusSq = radius * radius;
+  let write = 0;
+  for (let read = 0; read < trees.length; read++) {
+    const tree = trees[read];
+    const dx = tree.x - centerX;
+    const dy = tree.y - centerY;
+    if (dx * dx + dy * dy <= radiusSq) continue;
+    trees[write++] = tree;
+  }
+  trees.length = write;
+  return write !== before;
+}
+
+export function createTreeMesh(): InstancedMesh {
+  const trunk = new CylinderGeometry(0.12, 0.18, 1.2, 6);
+  trunk.translate(0, 0.6, 0);
+  paintGeometry(trunk, new Color("#5a3d24"));
+
+  const lowerCanopy = new ConeGeometry(0.9, 1.8, 7);
+  lowerCanopy.translate(0, 1.9, 0);
+  paintGeometry(lowerCanopy, new Color("#2f5d2a"));
+
+  const upperCanopy = new ConeGeometry(0.65, 1.4, 7);
+  upperCanopy.translate(0, 2.7, 0);
+  paintGeometry(upperCanopy, new Color("#3b7033"));
+
+  const geometry = mergeGeometries([trunk, lowerCanopy, upperCanopy], false)!;
+  trunk.dispose();
+  lowerCanopy.dispose();
+  upperCanopy.dispose();
+
+  const material = new MeshStandardMaterial({
+    vertexColors: true,
+    roughness: 0.85,
+    metalness: 0,
+  });
+  const mesh = new InstancedMesh(geometry, material, MAX_TREES);
+  mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+  mesh.count = 0;
+  mesh.frustumCulled = false;
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  return mesh;
+}
+
+// Rewrites every instance, re-sampling the terrain height so trees stay snapped.
+// With a region only the trees standing on it are moved: the ones whose
+// height samples read a texel of it.
+export function updateTreeMesh(
+  mesh: InstancedMesh,
+  trees: TreeInstance[],
+  heightfield: Heightfield,
+  heightScale: number,
+  region?: HeightfieldRegion,
+): void {
+  const matrix = new Matrix4();
+  const position = new Vector3();
+  const quaternion = new Quaternion();
+  const rotation = new Euler();
+  const scale = new Vector3();
+  const worldWidth = heightfield.width - 1;
+  const worldHeight = heightfield.height - 1;
+
+  const count = Math.min(trees.length, MAX_TREES);
+  for (let i = 0; i < count; i++) {
+    const tree = trees[i];
+    if (
+      region &&
+      (tree.x <= region.minX - 1 ||
+        tree.x >= region.maxX + 1 ||
+        tree.y <= region.minY - 1 ||
+        tree.y >= region.maxY + 1)
+    ) {
+      continue;
+    }
+    position.set(
+      tree.x - worldWidth * 0.5,
+      heightfield.sampleHeight(tree.x, tree.y) * heightScale,
+      tree.y - worldHeight * 0.5,
+    );
+    rotation.set(0, tree.yaw, 0);
+    quaternion.setFromEuler(rotation);
+    scale.setScalar(tree.scale);
+    matrix.compose(position, quaternion, scale);
+    mesh.setMatrixAt(i, matrix);
+  }
+  mesh.count = count;
+  mesh.instanceMatrix.needsUpdate = true;
+}
+
+export function canPlaceTree(
+  heightfield: Heightfield,
+  x: number,
+  y: number,
+  rules: TreePlacementRules,
+): boolean {
+  const h = heightfield.sampleHeight(x, y);
+  if (h < rules.minHeight || h > rules.maxHeight) return false;
+  if (rules.water && getWaterDepth(rules.water, x, y) > 0) return false;
+
+  // Same central-difference slope estimate used for the grass mask.
+  const hL = heightfield.sampleHeight(x - 1, y);
+  const hR = heightfield.sampleHeight(x + 1, y);
+  const hD = heightfield.sampleHeight(x, y - 1);
+  const hU = heightfield.sampleHeight(x, y + 1);
+  const dx = (hR - hL) * 0.5;
+  const dy = (hU - hD) * 0.5;
+  return Math.sqrt(dx * dx + dy * dy) <= rules.maxSlope;
+}
+
+// Packs trees as [x, y, scale, yaw] per instance, for project files.
+export function packTrees(trees: TreeInstance[]): Float32Array {
+  const out = new Float32Array(trees.length * 4);
+  trees.forEach((tree, i) => {
+    out[i * 4] = tree.x;
+    out[i * 4 + 1] = tree.y;
+    out[i * 4 + 2] = tree.scale;
+    out[i * 4 + 3] = tree.yaw;
+  });
+  return out;
+}
+
+export function unpackTrees(data: Float32Array): TreeInstance[] {
+  const trees: TreeInstance[] = [];
+  for (let i = 0; i + 3 < data.length; i += 4) {
+    trees.push({
+      x: data[i],
+      y: data[i + 1],
+      scale: data[i + 2],
+      yaw: data[i + 3],
+    });
+  }
+  return trees;
+}
+
+function hasTreeWithin(
+  trees: TreeInstance[],
+  x: number,
+  y: number,
+  distance: number,
+) {
+  const distanceSq = distance * distance;
+  for (const tree of trees) {
+    const dx = tree.x - x;
+    const dy = tree.y - y;
+    if (dx * dx + dy * dy < distanceSq) return true;
+  }
+  return false;
+}
+
+function paintGeometry(geometry: BufferGeometry, color: Color) {
+  const count = geometry.getAttribute("position").count;
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    color.toArray(colors, i * 3);
+  }
+  geometry.setAttribute("color", new BufferAttribute(colors, 3));
+}
@@ -1,41 +1,259 @@
+import { BiomeLayer, DEFAULT_BIOME_LAYERS } from "./biomes";
+import { MeshExportFormat } from "./exporter";
+import { HeightmapFormat } from "./heightmap";
+import { NoiseGeneratorType } from "./noise";
+import { BrushFalloff, SculptBrushMode } from "./sculpt";
+
 export type UiState = {
+  seed: number;
+  generatorType: NoiseGeneratorType;
+  octaves: number;
+  lacunarity: number;
+  gain: number;
+  worldMode: "fixed" | "streaming";
+  terrainLod: boolean;
   brushRadius: number;
   brushIntensity: number;
-  brushMode: "raise" | "lower" | "smooth";
+  brushMode: SculptBrushMode;
+  brushFalloff: BrushFalloff;
+  brushFalloffCurve: string; // comma separated weights, centre to rim
+  terraceStep: number;
+  noiseScale: number;
+  strokeSpacing: number; // fraction of the radius between dabs
+  pressureRadius: boolean;
+  pressureStrength: boolean;
+  tiltRadius: boolean;
   heightLow: number;
   heightHigh: number;
   slopeThreshold: number;
-  toolMode: "sculpt" | "tree-paint";
+  terrainTextures: boolean;
+  biomeLayers: BiomeLayer[];
+  biomeLayer: number; // layer edited by the per-layer controls
+  biomeBlend: number;
+  biomeMoisture: number;
+  biomeTemperature: number;
+  waterEnabled: boolean;
+  seaLevel: number;
+  waterLakes: boolean;
+  lakeMinDepth: number;
+  waterRivers: boolean;
+  riverThreshold: number;
+  waterReflections: boolean;
+  timeOfDay: number; // hours
+  animateTime: boolean;
+  latitude: number;
+  fogDensity: number;
+  fogHeight: number;
+  shadows: boolean;
+  shadowCascades: number;
+  shadowMapSize: number;
+  toolMode: "sculpt" | "tree-paint" | "layer-paint" | "grass-paint";
   treeDensity: number;
+  erosionDroplets: number;
+  thermalIterations: number;
+  heightmapFormat: HeightmapFormat;
+  importHeightMin: number;
+  importHeightMax: number;
+  // RAW import size, 0 = inferred from the file size and the world aspect.
+  rawWidth: number;
+  rawHeight: number;
+  meshExportFormat: MeshExportFormat;
+  exportTriangles: number;
+  exportGrass: boolean;
   windStrength: number;
   windFrequency: number;
   gustStrength: number;
+  windDirection: number; // degrees
+  windTurbulence: number;
+  gustSpeed: number;
   grassVariation: number;
   maxGrassInstances: number;
+  grassTrample: boolean;
+  trampleCursor: boolean;
+  trampleRecovery: number; // seconds
 };
 
 let state: UiState | null = null;
 const listeners = new Set<() => void>();
 
+// DOM control backing each field, used to reflect programmatic changes.
+const controlIds: Partial<Record<keyof UiState, string>> = {
+  seed: "world-seed",
+  generatorType: "generator-type",
+  octaves: "noise-octaves",
+  lacunarity: "noise-lacunarity",
+  gain: "noise-gain",
+  worldMode: "world-mode",
+  terrainLod: "terrain-lod",
+  toolMode: "tool-mode",
+  treeDensity: "tree-density",
+  brushMode: "brush-mode",
+  brushFalloff: "brush-falloff",
+  brushFalloffCurve: "brush-falloff-curve",
+  terraceStep: "terrace-step",
+  noiseScale: "noise-scale",
+  strokeSpacing: "stroke-spacing",
+  pressureRadius: "pressure-radius",
+  pressureStrength: "pressure-strength",
+  tiltRadius: "tilt-radius",
+  brushRadius: "brush-radius",
+  brushIntensity: "brush-intensity",
+  heightLow: "height-low",
+  heightHigh: "height-high",
+  slopeThreshold: "slope-threshold",
+  terrainTextures: "terrain-textures",
+  biomeLayer: "biome-layer",
+  biomeBlend: "biome-blend",
+  biomeMoisture: "biome-moisture",
+  biomeTemperature: "biome-temperature",
+  waterEnabled: "water-enabled",
+  seaLevel: "sea-level",
+  waterLakes: "water-lakes",
+  lakeMinDepth: "lake-min-depth",
+  waterRivers: "water-rivers",
+  riverThreshold: "river-threshold",
+  waterReflections: "water-reflections",
+  timeOfDay: "time-of-day",
+  animateTime: "animate-time",
+  latitude: "latitude",
+  fogDensity: "fog-density",
+  fogHeight: "fog-height",
+  shadows: "shadows",
+  shadowCascades: "shadow-cascades",
+  shadowMapSize: "shadow-map-size",
+  erosionDroplets: "erosion-droplets",
+  thermalIterations: "thermal-iterations",
+  heightmapFormat: "heightmap-format",
+  importHeightMin: "import-height-min",
+  importHeightMax: "import-height-max",
+  rawWidth: "raw-width",
+  rawHeight: "raw-height",
+  meshExportFormat: "mesh-export-format",
+  exportTriangles: "export-triangles",
+  exportGrass: "export-grass",
+  windStrength: "wind-strength",
+  windFrequency: "wind-frequency",
+  gustStrength: "gust-strength",
+  windDirection: "wind-direction",
+  windTurbulence: "wind-turbulence",
+  gustSpeed: "gust-speed",
+  grassVariation: "grass-variation",
+  maxGrassInstances: "max-grass-instances",
+  grassTrample: "grass-trample",
+  trampleCursor: "trample-cursor",
+  trampleRecovery: "trample-recovery",
+};
+
 export function setupUI() {
   state = {
+    seed: getNumber("world-seed", 1337),
+    generatorType: getSelect("generator-type", "fbm") as NoiseGeneratorType,
+    octaves: getNumber("noise-octaves", 5),
+    lacunarity: getNumber("noise-lacunarity", 2),
+    gain: getNumber("noise-gain", 0.5),
+    worldMode: getSelect("world-mode", "fixed") as UiState["worldMode"],
+    terrainLod: getChecked("terrain-lod", false),
     brushRadius: getNumber("brush-radius", 10),
     brushIntensity: getNumber("brush-intensity", 0.12),
-    brushMode: "raise",
+    brushMode: getSelect("brush-mode", "raise") as SculptBrushMode,
+    brushFalloff: getSelect("brush-falloff", "linear") as BrushFalloff,
+    brushFalloffCurve: getText("brush-falloff-curve", "1, 1, 0.8, 0.3, 0"),
+    terraceStep: getNumber("terrace-step", 0.25),
+    noiseScale: getNumber("noise-scale", 8),
+    strokeSpacing: getNumber("stroke-spacing", 0.25),
+    pressureRadius: getChecked("pressure-radius", true),
+    pressureStrength: getChecked("pressure-strength", true),
+    tiltRadius: getChecked("tilt-radius", false),
     heightLow: getNumber("height-low", -1),
     heightHigh: getNumber("height-high", 4),
     slopeThreshold: getNumber("slope-threshold", 0.35),
-    toolMode: "sculpt",
+    terrainTextures: getChecked("terrain-textures", false),
+    biomeLayers: DEFAULT_BIOME_LAYERS.map(copyBiomeLayer),
+    biomeLayer: getNumber("biome-layer", 0),
+    biomeBlend: getNumber("biome-blend", 0.08),
+    biomeMoisture: getNumber("biome-moisture", 0),
+    biomeTemperature: getNumber("biome-temperature", 0),
+    waterEnabled: getChecked("water-enabled", true),
+    seaLevel: getNumber("sea-level", -1),
+    waterLakes: getChecked("water-lakes", true),
+    lakeMinDepth: getNumber("lake-min-depth", 0.3),
+    waterRivers: getChecked("water-rivers", true),
+    riverThreshold: getNumber("river-threshold", 300),
+    waterReflections: getChecked("water-reflections", false),
+    timeOfDay: getNumber("time-of-day", 10),
+    animateTime: getChecked("animate-time", false),
+    latitude: getNumber("latitude", 45),
+    fogDensity: getNumber("fog-density", 0.004),
+    fogHeight: getNumber("fog-height", 1),
+    shadows: getChecked("shadows", true),
+    shadowCascades: getNumber("shadow-cascades", 3),
+    shadowMapSize: Number(getSelect("shadow-map-size", "2048")),
+    toolMode: getSelect("tool-mode", "sculpt") as UiState["toolMode"],
     treeDensity: getNumber("tree-density", 0.6),
+    erosionDroplets: getNumber("erosion-droplets", 80000),
+    thermalIterations: getNumber("thermal-iterations", 10),
+    heightmapFormat: getSelect("heightmap-format", "png16") as HeightmapFormat,
+    importHeightMin: getNumber("import-height-min", -1.5),
+    importHeightMax: getNumber("import-height-max", 1.5),
+    rawWidth: getNumber("raw-width", 0),
+    rawHeight: getNumber("raw-height", 0),
+    meshExportFormat: getSelect("mesh-export-format", "glb") as MeshExportFormat,
+    exportTriangles: getNumber("export-triangles", 131072),
+    exportGrass: getChecked("export-grass", true),
     windStrength: getNumber("wind-strength", 0.25),
     windFrequency: getNumber("wind-frequency", 1.5),
     gustStrength: getNumber("gust-strength", 0.35),
+    windDirection: getNumber("wind-direction", 0),
+    windTurbulence: getNumber("wind-turbulence", 0.3),
+    gustSpeed: getNumber("gust-speed", 6),
     grassVariation: getNumber("grass-variation", 1),
     maxGrassInstances: getNumber("max-grass-instances", 400000),
+    grassTrample: getChecked("grass-trample", true),
+    trampleCursor: getChecked("trample-cursor", true),
+    trampleRecovery: getNumber("trample-recovery", 2),
   };
 
-  const notify = () => listeners.forEach((fn) => fn());
-
+  wireInput("world-seed", (v) => {
+    if (!state) return;
+    state.seed = Math.floor(v);
+    notify();
+  });
+  wireSelect("generator-type", (v) => {
+    if (!state) return;
+    state.generatorType = v as NoiseGeneratorType;
+    notify();
+  });
+  wireInput("noise-octaves", (v) => {
+    if (!state) return;
+    state.octaves = Math.round(v);
+    notify();
+  });
+  wireInput("noise-lacunarity", (v) => {
+    if (!state) return;
+    state.lacunarity = v;
+    notify();
+  });
+  wireInput("noise-gain", (v) => {
+    if (!state) return;
+    state.gain = v;
+    notify();
+  });
+  wireSelect("world-mode", (v) => {
+    if (!state) return;
+    state.worldMode = v as UiState["worldMode"];
+    notify();
+  });
+  wireCheckbox("terrain-lod", (v) => {
+    if (!state) return;
+    state.terrainLod = v;
+    notify();
+  });
+  onButtonClick("random-seed", () => {
+    const el = document.getElementById("world-seed") as HTMLInputElement | null;
+    if (!el) return;
+    el.value = String(Math.floor(Math.random() * 1_000_000));
+    el.dispatchEvent(new Event("input"));
+  });
   wireInput("brush-radius", (v) => {
     if (!state) return;
     state.brushRadius = v;
@@ -46,6 +264,110 @@ export function setupUI() {
     state.brushIntensity = v;
     notify();
   });
+  wireSelect("tool-mode", (v) => {
+    if (!state) return;
+    state.toolMode = v as UiState["toolMode"];
+    notify();
+  });
+  wireInput("tree-density", (v) => {
+    if (!state) return;
+    state.treeDensity = v;
+    notify();
+  });
+  wireSelect("brush-mode", (v) => {
+    if (!state) return;
+    state.brushMode = v as SculptBrushMode;
+    notify();
+  });
+  wireSelect("brush-falloff", (v) => {
+    if (!state) return;
+    state.brushFalloff = v as BrushFalloff;
+    notify();
+  });
+  wireText("brush-falloff-curve", (v) => {
+    if (!state) return;
+    state.brushFalloffCurve = v;
+    notify();
+  });
+  wireInput("terrace-step", (v) => {
+    if (!state) return;
+    state.terraceStep = v;
+    notify();
+  });
+  wireInput("noise-scale", (v) => {
+    if (!state) return;
+    state.noiseScale = v;
+    notify();
+  });
+  wireInput("stroke-spacing", (v) => {
+    if (!state) return;
+    state.strokeSpacing = v;
+    notify();
+  });
+  wireCheckbox("pressure-radius", (v) => {
+    if (!state) return;
+    state.pressureRadius = v;
+    notify();
+  });
+  wireCheckbox("pressure-strength", (v) => {
+    if (!state) return;
+    state.pressureStrength = v;
+    notify();
+  });
+  wireCheckbox("tilt-radius", (v) => {
+    if (!state) return;
+    state.tiltRadius = v;
+    notify();
+  });
+  wireInput("erosion-droplets", (v) => {
+    if (!state) return;
+    state.erosionDroplets = v;
+    notify();
+  });
+  wireInput("thermal-iterations", (v) => {
+    if (!state) return;
+    state.thermalIterations = v;
+    notify();
+  });
+  wireSelect("heightmap-format", (v) => {
+    if (!state) return;
+    state.heightmapFormat = v as HeightmapFormat;
+    notify();
+  });
+  wireInput("import-height-min", (v) => {
+    if (!state) return;
+    state.importHeightMin = v;
+    notify();
+  });
+  wireInput("import-height-max", (v) => {
+    if (!state) return;
+    state.importHeightMax = v;
+    notify();
+  });
+  // Blank fields mean "infer", so these read text rather than numbers.
+  wireText("raw-width", (v) => {
+    if (!state) return;
+    state.rawWidth = parseRawSize(v);
+  });
+  wireText("raw-height", (v) => {
+    if (!state) return;
+    state.rawHeight = parseRawSize(v);
+  });
+  wireSelect("mesh-export-format", (v) => {
+    if (!state) return;
+    state.meshExportFormat = v as MeshExportFormat;
+    notify();
+  });
+  wireInput("export-triangles", (v) => {
+    if (!state) return;
+    state.exportTriangles = v;
+    notify();
+  });
+  wireCheckbox("export-grass", (v) => {
+    if (!state) return;
+    state.exportGrass = v;
+    notify();
+  });
   wireInput("height-low", (v) => {
     if (!state) return;
     state.heightLow = v;
@@ -61,6 +383,109 @@ export function setupUI() {
     state.slopeThreshold = v;
     notify();
   });
+  wireCheckbox("terrain-textures", (v) => {
+    if (!state) return;
+    state.terrainTextures = v;
+    notify();
+  });
+  wireSelect("biome-layer", (v) => {
+    if (!state) return;
+    state.biomeLayer = parseInt(v, 10) || 0;
+    reflectBiomeLayer();
+    notify();
+  });
+  wireInput("biome-blend", (v) => {
+    if (!state) return;
+    state.biomeBlend = v;
+    notify();
+  });
+  wireInput("biome-moisture", (v) => {
+    if (!state) return;
+    state.biomeMoisture = v;
+    notify();
+  });
+  wireInput("biome-temperature", (v) => {
+    if (!state) return;
+    state.biomeTemperature = v;
+    notify();
+  });
+  for (const [id, range, end] of biomeRangeIds) {
+    wireBiomeInput(id, (layer, v) => {
+      layer[range][end] = v;
+    });
+  }
+  wireBiomeInput("biome-tiling", (layer, v) => {
+    layer.tiling = v;
+  });
+  reflectBiomeLayer();
+  wireCheckbox("water-enabled", (v) => {
+    if (!state) return;
+    state.waterEnabled = v;
+    notify();
+  });
+  wireInput("sea-level", (v) => {
+    if (!state) return;
+    state.seaLevel = v;
+    notify();
+  });
+  wireCheckbox("water-lakes", (v) => {
+    if (!state) return;
+    state.waterLakes = v;
+    notify();
+  });
+  wireInput("lake-min-depth", (v) => {
+    if (!state) return;
+    state.lakeMinDepth = v;
+    notify();
+  });
+  wireCheckbox("water-rivers", (v) => {
+    if (!state) return;
+    state.waterRivers = v;
+    notify();
+  });
+  wireInput("river-threshold", (v) => {
+    if (!state) return;
+    state.riverThreshold = v;
+    notify();
+  });
+  wireCheckbox("water-reflections", (v) => {
+    if (!state) return;
+    state.waterReflections = v;
+    notify();
+  });
+  // The sky reads these every frame: no need to rebuild the world.
+  wireInput("time-of-day", (v) => {
+    if (!state) return;
+    state.timeOfDay = v;
+  });
+  wireCheckbox("animate-time", (v) => {
+    if (!state) return;
+    state.animateTime = v;
+  });
+  wireInput("latitude", (v) => {
+    if (!state) return;
+    state.latitude = v;
+  });
+  wireInput("fog-density", (v) => {
+    if (!state) return;
+    state.fogDensity = v;
+  });
+  wireInput("fog-height", (v) => {
+    if (!state) return;
+    state.fogHeight = v;
+  });
+  wireCheckbox("shadows", (v) => {
+    if (!state) return;
+    state.shadows = v;
+  });
+  wireInput("shadow-cascades", (v) => {
+    if (!state) return;
+    state.shadowCascades = v;
+  });
+  wireSelect("shadow-map-size", (v) => {
+    if (!state) return;
+    state.shadowMapSize = Number(v);
+  });
   wireInput("wind-strength", (v) => {
     if (!state) return;
     state.windStrength = v;
@@ -76,6 +501,19 @@ export function setupUI() {
     state.gustStrength = v;
     notify();
   });
+  // Read every frame by the wind field, like the sky controls.
+  wireInput("wind-direction", (v) => {
+    if (!state) return;
+    state.windDirection = v;
+  });
+  wireInput("wind-turbulence", (v) => {
+    if (!state) return;
+    state.windTurbulence = v;
+  });
+  wireInput("gust-speed", (v) => {
+    if (!state) return;
+    state.gustSpeed = v;
+  });
   wireInput("grass-variation", (v) => {
     if (!state) return;
     state.grassVariation = v;
@@ -86,6 +524,19 @@ export function setupUI() {
     state.maxGrassInstances = v;
     notify();
   });
+  // Read every frame by the trample map.
+  wireCheckbox("grass-trample", (v) => {
+    if (!state) return;
+    state.grassTrample = v;
+  });
+  wireCheckbox("trample-cursor", (v) => {
+    if (!state) return;
+    state.trampleCursor = v;
+  });
+  wireInput("trample-recovery", (v) => {
+    if (!state) return;
+    state.trampleRecovery = v;
+  });
 
   return {
     getState,
@@ -100,11 +551,179 @@ export function getState(): UiState {
   return { ...state };
 }
 
+// `quiet` only reflects the values in the controls, for per-frame updates.
+export function setState(next: Partial<UiState>, quiet = false) {
+  if (!state) {
+    throw new Error("UI state not initialized");
+  }
+  state = { ...state, ...next };
+  for (const key of Object.keys(next) as (keyof UiState)[]) {
+    const id = controlIds[key];
+    const el = id
+      ? (document.getElementById(id) as HTMLInputElement | null)
+      : null;
+    if (!el) continue;
+    if (el.type === "checkbox") {
+      el.checked = Boolean(state[key]);
+      continue;
+    }
+    el.value = String(state[key]);
+    const display = document.querySelector(
+      `.value[data-for="${id}"]`,
+    ) as HTMLElement | null;
+    if (display) display.textContent = el.value;
+  }
+  if ("biomeLayers" in next || "biomeLayer" in next) reflectBiomeLayer();
+  if (!quiet) notify();
+}
+
 export function subscribe(fn: () => void) {
   listeners.add(fn);
   return () => listeners.delete(fn);
 }
 
+export function downloadFile(
+  data: BlobPart,
+  filename: string,
+  type = "application/octet-stream",
+) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function pickFile(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("change", () => resolve(input.files?.[0] ?? null));
+    input.click();
+  });
+}
+
+export function onButtonClick(id: string, onClick: () => void) {
+  const el = document.getElementById(id) as HTMLButtonElement | null;
+  if (!el) return;
+  el.addEventListener("click", onClick);
+}
+
+// Parses a "1, 0.8, 0" style list, ignoring anything that is not a number.
+export function parseCurve(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((part) => parseFloat(part))
+    .filter((value) => Number.isFinite(value));
+}
+
+export function setStatus(text: string) {
+  const el = document.getElementById("status");
+  if (el) el.textContent = text;
+}
+
+// Background jobs, shown on one line under the status: "World 40% · Grass 10%".
+const progress = new Map<string, number>();
+
+export function setProgress(label: string, fraction: number | null) {
+  if (fraction === null) {
+    progress.delete(label);
+  } else {
+    progress.set(label, Math.min(1, Math.max(0, fraction)));
+  }
+  const el = document.getElementById("job-progress");
+  const bar = document.getElementById(
+    "job-progress-bar",
+  ) as HTMLProgressElement | null;
+  const text = document.getElementById("job-progress-label");
+  if (!el) return;
+  el.hidden = progress.size === 0;
+  if (progress.size === 0) return;
+  if (text) {
+    text.textContent = Array.from(
+      progress,
+      ([name, value]) => `${name} ${Math.round(value * 100)}%`,
+    ).join(" · ");
+  }
+  if (bar) bar.value = Math.min(...progress.values());
+}
+
+function notify() {
+  listeners.forEach((fn) => fn());
+}
+
+type BiomeRange = "height" | "slope" | "moisture" | "temperature";
+
+const biomeRangeIds: [string, BiomeRange, 0 | 1][] = [
+  ["biome-height-min", "height", 0],
+  ["biome-height-max", "height", 1],
+  ["biome-slope-min", "slope", 0],
+  ["biome-slope-max", "slope", 1],
+  ["biome-moisture-min", "moisture", 0],
+  ["biome-moisture-max", "moisture", 1],
+  ["biome-temperature-min", "temperature", 0],
+  ["biome-temperature-max", "temperature", 1],
+];
+
+function copyBiomeLayer(layer: BiomeLayer): BiomeLayer {
+  return {
+    ...layer,
+    height: [...layer.height],
+    slope: [...layer.slope],
+    moisture: [...layer.moisture],
+    temperature: [...layer.temperature],
+  };
+}
+
+// The selected layer is replaced, not mutated, so getState() copies taken
+// before an edit keep the old values.
+function wireBiomeInput(
+  id: string,
+  update: (layer: BiomeLayer, value: number) => void,
+) {
+  const el = document.getElementById(id) as HTMLInputElement | null;
+  if (!el) return;
+  const display = document.querySelector(
+    `.value[data-for="${id}"]`,
+  ) as HTMLElement | null;
+  el.addEventListener("input", () => {
+    const v = parseFloat(el.value);
+    if (!state || !Number.isFinite(v)) return;
+    if (display) display.textContent = el.value;
+    const index = state.biomeLayer;
+    state.biomeLayers = state.biomeLayers.map((layer, i) => {
+      if (i !== index) return layer;
+      const copy = copyBiomeLayer(layer);
+      update(copy, v);
+      return copy;
+    });
+    notify();
+  });
+}
+
+// Per-layer controls show the selected layer.
+function reflectBiomeLayer() {
+  const layer = state?.biomeLayers[state.biomeLayer];
+  if (!layer) return;
+  const values: [string, number][] = [
+    ...biomeRangeIds.map(
+      ([id, range, end]): [string, number] => [id, layer[range][end]],
+    ),
+    ["biome-tiling", layer.tiling],
+  ];
+  for (const [id, value] of values) {
+    const el = document.getElementById(id) as HTMLInputElement | null;
+    if (!el) continue;
+    el.value = String(value);
+    const display = document.querySelector(
+      `.value[data-for="${id}"]`,
+    ) as HTMLElement | null;
+    if (display) display.textContent = el.value;
+  }
+}
+
 function wireInput(id: string, onChange: (value: number) => void) {
   const el = document.getElementById(id) as HTMLInputElement | null;
   if (!el) return;
@@ -121,6 +740,44 @@ function wireInput(id: string, onChange: (value: number) => void) {
   handler();
 }
 
+function wireSelect(id: string, onChange: (value: string) => void) {
+  const el = document.getElementById(id) as HTMLSelectElement | null;
+  if (!el) return;
+  el.addEventListener("change", () => onChange(el.value));
+}
+
+function wireText(id: string, onChange: (value: string) => void) {
+  const el = document.getElementById(id) as HTMLInputElement | null;
+  if (!el) return;
+  el.addEventListener("change", () => onChange(el.value));
+}
+
+function wireCheckbox(id: string, onChange: (value: boolean) => void) {
+  const el = document.getElementById(id) as HTMLInputElement | null;
+  if (!el) return;
+  el.addEventListener("change", () => onChange(el.checked));
+}
+
+function getChecked(id: string, fallback: boolean): boolean {
+  const el = document.getElementById(id) as HTMLInputElement | null;
+  return el ? el.checked : fallback;
+}
+
+function getText(id: string, fallback: string): string {
+  const el = document.getElementById(id) as HTMLInputElement | null;
+  return el?.value || fallback;
+}
+
+function getSelect(id: string, fallback: string): string {
+  const el = document.getElementById(id) as HTMLSelectElement | null;
+  return el?.value || fallback;
+}
+
+function parseRawSize(value: string): number {
+  const size = Math.floor(Number(value));
+  return Number.isFinite(size) && size > 1 ? size : 0;
+}
+
 function getNumber(id: string, fallback: number): number {
   const el = document.getElementById(id) as HTMLInputElement | null;
   if (!el) return fallback;
@@ -0,0 +1,218 @@
+import { BufferAttribute, BufferGeometry, Color, Mesh } from "three";
+import { MeshStandardNodeMaterial, Node, TSL } from "three/webgpu";
+import { Heightfield } from "./heightfield";
+import { WaterData, WaterKind } from "./waterData";
+
+export type WaterLook = {
+  shallowColor: string;
+  deepColor: string;
+  depthRange: number; // world units from shallow to deep colour
+  foamWidth: number; // world units of depth covered by shoreline foam
+  reflections: boolean;
+};
+
+export const DEFAULT_WATER_LOOK: WaterLook = {
+  shallowColor: "#3fa7b5",
+  deepColor: "#0b3a5c",
+  depthRange: 1.5,
+  foamWidth: 0.12,
+  reflections: false,
+};
+
+const {
+  abs,
+  attribute,
+  cos,
+  dot,
+  float,
+  mix,
+  normalView,
+  positionViewDirection,
+  positionWorld,
+  pow,
+  reflector,
+  sin,
+  smoothstep,
+  time,
+  transformNormalToView,
+  uniform,
+  vec3,
+} = TSL;
+
+// One mesh for sea, lakes and rivers over the heightfield grid. Only quads
+// touching a wet texel are drawn; their dry corners take the level of the
+// water next to them, so the surface runs into the terrain at the shore.
+export class WaterSurface {
+  readonly mesh: Mesh;
+
+  private readonly geometry = new BufferGeometry();
+  private readonly shallowColor = uniform(new Color());
+  private readonly deepColor = uniform(new Color());
+  private readonly depthRange = uniform(1);
+  private readonly foamWidth = uniform(0.1);
+  private material: MeshStandardNodeMaterial;
+  private mirror: ReturnType<typeof reflector> | null = null;
+  private reflections: boolean;
+  private seaLevel = 0;
+
+  constructor(look: WaterLook = DEFAULT_WATER_LOOK) {
+    this.reflections = look.reflections;
+    this.mesh = new Mesh(this.geometry);
+    this.material = this.createMaterial();
+    this.mesh.material = this.material;
+    this.mesh.name = "Water";
+    // Drawn after the terrain, which it blends over.
+    this.mesh.renderOrder = 1;
+    this.mesh.receiveShadow = true;
+    this.setLook(look);
+  }
+
+  setLook(look: WaterLook): void {
+    this.shallowColor.value.set(look.shallowColor);
+    this.deepColor.value.set(look.deepColor);
+    this.depthRange.value = Math.max(1e-3, look.depthRange);
+    this.foamWidth.value = Math.max(1e-3, look.foamWidth);
+    if (look.reflections !== this.reflections) {
+      this.reflections = look.reflections;
+      const previous = this.material;
+      this.material = this.createMaterial();
+      this.mesh.material = this.material;
+      previous.dispose();
+    }
+  }
+
+  update(
+    water: WaterData,
+    heightfield: Heightfield,
+    heightScale: number,
+  ): void {
+    const { width, height, kind, surface } = water;
+    const count = width * height;
+    const positions = new Float32Array(count * 3);
+    const depths = new Float32Array(count);
+    const rivers = new Float32Array(count);
+    const offsetX = (width - 1) * 0.5;
+    const offsetZ = (height - 1) * 0.5;
+    let seaLevel = -Infinity;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const ground = heightfield.data[i] * heightScale;
+        let level = surface[i];
+        if (kind[i] === WaterKind.Dry) {
+          level = getNeighborLevel(water, x, y);
+        }
+        if (kind[i] === WaterKind.Sea) seaLevel = level;
+        if (!Number.isFinite(level)) level = ground;
+        positions[i * 3] = x - offsetX;
+        positions[i * 3 + 1] = level;
+        positions[i * 3 + 2] = y - offsetZ;
+        depths[i] = level - ground;
+        rivers[i] = kind[i] === WaterKind.River ? 1 : 0;
+      }
+    }
+
+    const indices: number[] = [];
+    for (let y = 0; y < height - 1; y++) {
+      for (let x = 0; x < width - 1; x++) {
+        const a = y * width + x;
+        const b = a + width;
+        if (
+          kind[a] === WaterKind.Dry &&
+          kind[a + 1] === WaterKind.Dry &&
+          kind[b] === WaterKind.Dry &&
+          kind[b + 1] === WaterKind.Dry
+        ) {
+          continue;
+        }
+        // Same winding as the terrain grid.
+        indices.push(a, b, a + 1, b, b + 1, a + 1);
+      }
+    }
+
+    this.geometry.setAttribute("position", new BufferAttribute(positions, 3));
+    this.geometry.setAttribute("waterDepth", new BufferAttribute(depths, 1));
+    this.geometry.setAttribute("river", new BufferAttribute(rivers, 1));
+    this.geometry.setIndex(indices);
+    this.geometry.computeBoundingSphere();
+
+    // The mirror plane sits on the sea; lakes and rivers reuse it.
+    if (Number.isFinite(seaLevel)) {
+      this.seaLevel = seaLevel;
+      if (this.mirror) this.mirror.target.position.y = seaLevel;
+    }
+  }
+
+  dispose(): void {
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private createMaterial(): MeshStandardNodeMaterial {
+    if (this.mirror) this.mesh.remove(this.mirror.target);
+    this.mirror = null;
+    const depth = attribute("waterDepth", "float");
+    const river = attribute("river", "float");
+
+    // Two crossing wave trains bend the normal; rivers ripple faster.
+    const p = positionWorld.xz;
+    const speed = mix(float(0.8), float(2.2), river);
+    const waveX = sin(p.x.mul(1.7).add(p.y.mul(0.6)).add(time.mul(speed)));
+    const waveZ = cos(p.y.mul(1.3).sub(p.x.mul(0.4)).add(time.mul(speed)));
+    const ripple = vec3(waveX.mul(0.06), 1, waveZ.mul(0.06)).normalize();
+
+    const deepness = smoothstep(0, this.depthRange, depth);
+    let color: Node = mix(this.shallowColor, this.deepColor, deepness);
+    const fresnel = pow(
+      float(1).sub(abs(dot(normalView, positionViewDirection))),
+      5,
+    );
+
+    const material = new MeshStandardNodeMaterial({
+      transparent: true,
+      roughness: 0.08,
+      metalness: 0,
+    });
+    if (this.reflections) {
+      this.mirror = reflector({ resolutionScale: 0.5 });
+      this.mirror.target.rotateX(-Math.PI / 2);
+      this.mirror.target.position.y = this.seaLevel;
+      this.mesh.add(this.mirror.target);
+      color = mix(color, this.mirror.rgb, fresnel.mul(0.7).add(0.15));
+    }
+
+    // Foam hugs the shore of the sea and the lakes and flickers with the waves.
+    const shore = float(1).sub(smoothstep(0, this.foamWidth, depth));
+    const foam = shore
+      .mul(float(1).sub(river))
+      .mul(waveX.mul(waveZ).mul(0.5).add(0.6).clamp(0, 1));
+
+    material.colorNode = mix(color, vec3(0.95, 0.97, 1), foam);
+    material.normalNode = transformNormalToView(ripple);
+    material.opacityNode = mix(float(0.55), float(0.92), deepness)
+      .add(fresnel.mul(0.2))
+      .max(foam)
+      .clamp(0, 1);
+    return material;
+  }
+}
+
+// Highest water level among the 8 neighbours, -Infinity if they are all dry.
+function getNeighborLevel(water: WaterData, x: number, y: number) {
+  let level = -Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= water.width || ny >= water.height) {
+        continue;
+      }
+      const i = ny * water.width + nx;
+      if (water.kind[i] !== WaterKind.Dry) {
+        level = Math.max(level, water.surface[i]);
+      }
+    }
+  }
+  return level;
+}
@@ -0,0 +1,239 @@
+import { Heightfield } from "./heightfield";
+
+// CPU side of the water: sea, lakes and rivers per heightfield texel, in world
+// units (heights already multiplied by heightScale).
+
+export type WaterParams = {
+  heightScale: number;
+  seaLevel: number;
+  lakes: boolean;
+  lakeMinDepth: number; // shallower basins are left dry
+  rivers: boolean;
+  riverThreshold: number; // upstream texels draining through a river texel
+};
+
+export const WaterKind = {
+  Dry: 0,
+  Sea: 1,
+  Lake: 2,
+  River: 3,
+} as const;
+
+export type WaterData = {
+  width: number;
+  height: number;
+  kind: Uint8Array; // WaterKind values
+  surface: Float32Array; // water surface height, -Infinity when dry
+  depth: Float32Array; // surface minus terrain, 0 when dry
+  flow: Float32Array; // upstream texels, including the texel itself
+};
+
+const RIVER_DEPTH = 0.04;
+const MAX_RIVER_DEPTH = 0.25;
+// Lakes shallower than this at a texel are rounding noise of the fill.
+const MIN_LAKE_TEXEL_DEPTH = 1e-4;
+
+export function computeWaterData(
+  heightfield: Heightfield,
+  params: WaterParams,
+): WaterData {
+  const { width, height } = heightfield;
+  const count = width * height;
+  const terrain = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    terrain[i] = heightfield.data[i] * params.heightScale;
+  }
+
+  const { filled, parent, order } = fillDepressions(terrain, width, height);
+  const kind = new Uint8Array(count);
+  const surface = new Float32Array(count).fill(-Infinity);
+  const depth = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    if (terrain[i] < params.seaLevel) {
+      kind[i] = WaterKind.Sea;
+      surface[i] = params.seaLevel;
+    }
+  }
+  if (params.lakes) {
+    markLakes(terrain, filled, width, height, params, kind, surface);
+  }
+
+  // Every texel drains to the one the flood reached it from; walking the
+  // flood order backwards pushes flow downstream before it moves on.
+  const flow = new Float32Array(count).fill(1);
+  for (let k = order.length - 1; k >= 0; k--) {
+    const i = order[k];
+    if (parent[i] >= 0) flow[parent[i]] += flow[i];
+  }
+
+  if (params.rivers) {
+    const threshold = Math.max(1, params.riverThreshold);
+    for (let i = 0; i < count; i++) {
+      if (kind[i] !== WaterKind.Dry || flow[i] < threshold) continue;
+      kind[i] = WaterKind.River;
+      surface[i] =
+        terrain[i] +
+        Math.min(MAX_RIVER_DEPTH, RIVER_DEPTH * Math.sqrt(flow[i] / threshold));
+    }
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (kind[i] !== WaterKind.Dry) depth[i] = surface[i] - terrain[i];
+  }
+  return { width, height, kind, surface, depth, flow };
+}
+
+// Water depth at heightfield texel coordinates (nearest texel), 0 outside.
+export function getWaterDepth(
+  water: Pick<WaterData, "width" | "height" | "depth">,
+  x: number,
+  y: number,
+): number {
+  const col = Math.round(x);
+  const row = Math.round(y);
+  if (col < 0 || row < 0 || col >= water.width || row >= water.height) {
+    return 0;
+  }
+  return water.depth[row * water.width + col];
+}
+
+// Priority flood from the borders: `filled` is the terrain with every pit
+// raised to its spill height, `parent` the texel each one drains into (-1 on
+// the border), `order` the texels from the lowest outlet upstream.
+function fillDepressions(terrain: Float32Array, width: number, height: number) {
+  const count = width * height;
+  const filled = new Float32Array(count);
+  const parent = new Int32Array(count).fill(-1);
+  const order = new Int32Array(count);
+  const visited = new Uint8Array(count);
+  const queue = new MinHeap(count);
+  let popped = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x > 0 && y > 0 && x < width - 1 && y < height - 1) continue;
+      const i = y * width + x;
+      visited[i] = 1;
+      filled[i] = terrain[i];
+      queue.push(i, filled[i]);
+    }
+  }
+
+  while (queue.size > 0) {
+    const i = queue.pop();
+    order[popped++] = i;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let k = 0; k < 8; k++) {
+      const nx = x + NEIGHBOR_X[k];
+      const ny = y + NEIGHBOR_Y[k];
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (visited[n]) continue;
+      visited[n] = 1;
+      filled[n] = Math.max(terrain[n], filled[i]);
+      parent[n] = i;
+      queue.push(n, filled[n]);
+    }
+  }
+  return { filled, parent, order };
+}
+
+// Filled basins (4-connected) deep enough somewhere become lakes; the ones
+// under the sea are already sea.
+function markLakes(
+  terrain: Float32Array,
+  filled: Float32Array,
+  width: number,
+  height: number,
+  params: WaterParams,
+  kind: Uint8Array,
+  surface: Float32Array,
+) {
+  const seen = new Uint8Array(width * height);
+  const basin: number[] = [];
+  for (let start = 0; start < filled.length; start++) {
+    if (seen[start]) continue;
+    if (filled[start] - terrain[start] <= MIN_LAKE_TEXEL_DEPTH) continue;
+
+    basin.length = 0;
+    basin.push(start);
+    seen[start] = 1;
+    let maxDepth = 0;
+    for (let k = 0; k < basin.length; k++) {
+      const i = basin[k];
+      maxDepth = Math.max(maxDepth, filled[i] - terrain[i]);
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let d = 0; d < 8; d += 2) {
+        const nx = x + NEIGHBOR_X[d];
+        const ny = y + NEIGHBOR_Y[d];
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (seen[n] || filled[n] - terrain[n] <= MIN_LAKE_TEXEL_DEPTH) {
+          continue;
+        }
+        seen[n] = 1;
+        basin.push(n);
+      }
+    }
+
+    if (maxDepth < params.lakeMinDepth) continue;
+    for (const i of basin) {
+      if (filled[i] <= params.seaLevel) continue;
+      kind[i] = WaterKind.Lake;
+      surface[i] = filled[i];
+    }
+  }
+}
+
+// Even entries are the 4-neighbourhood.
+const NEIGHBOR_X = [1, 1, 0, -1, -1, -1, 0, 1];
+const NEIGHBOR_Y = [0, 1, 1, 1, 0, -1, -1, -1];
+
+// Binary heap of texel indices keyed by height.
+class MinHeap {
+  private readonly items: Int32Array;
+  private readonly keys: Float32Array;
+  size = 0;
+
+  constructor(capacity: number) {
+    this.items = new Int32Array(capacity);
+    this.keys = new Float32Array(capacity);
+  }
+
+  push(item: number, key: number) {
+    let i = this.size++;
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (this.keys[up] <= key) break;
+      this.items[i] = this.items[up];
+      this.keys[i] = this.keys[up];
+      i = up;
+    }
+    this.items[i] = item;
+    this.keys[i] = key;
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items[--this.size];
+    const lastKey = this.keys[this.size];
+    let i = 0;
+    for (;;) {
+      let child = i * 2 + 1;
+      if (child >= this.size) break;
+      if (child + 1 < this.size && this.keys[child + 1] < this.keys[child]) {
+        child++;
+      }
+      if (this.keys[child] >= lastKey) break;
+      this.items[i] = this.items[child];
+      this.keys[i] = this.keys[child];
+      i = child;
+    }
+    this.items[i] = lastItem;
+    this.keys[i] = lastKey;
+    return top;
+  }
+}
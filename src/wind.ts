@@ -0,0 +1,156 @@
+import {
+  ClampToEdgeWrapping,
+  DataTexture,
+  DataUtils,
+  HalfFloatType,
+  LinearFilter,
+  RGBAFormat,
+  Vector2,
+} from "three";
+import { createPerlin2D, Noise2D } from "./noise";
+
+// Wind over the world: a prevailing direction that wanders with turbulence
+// and gust fronts that sweep across the terrain along it. The field is an
+// analytic function of world position and time; `sample` evaluates it on the
+// CPU (trees, particles) and the texture caches it around the camera for the
+// grass vertex shader.
+
+export type WindParams = {
+  direction: number; // degrees, 0 = towards +X, 90 = towards +Z
+  strength: number;
+  turbulence: number; // 0..1, how far direction and strength wander
+  gustStrength: number;
+  gustSpeed: number; // world units per second the fronts travel
+  gustSpacing: number; // world units between two fronts
+};
+
+export const DEFAULT_WIND_PARAMS: WindParams = {
+  direction: 0,
+  strength: 0.25,
+  turbulence: 0.3,
+  gustStrength: 0.35,
+  gustSpeed: 6,
+  gustSpacing: 60,
+};
+
+// Texels per side and world units covered by the cached texture.
+export const WIND_TEXTURE_SIZE = 64;
+export const WIND_FIELD_EXTENT = 256;
+
+const TURBULENCE_SCALE = 0.015;
+const GUST_LATERAL_SCALE = 0.02;
+// Higher = narrower fronts.
+const GUST_SHARPNESS = 6;
+// The fronts move a fraction of a texel per bake at this rate.
+const BAKE_INTERVAL = 1 / 30;
+
+export class WindField {
+  // RG: wind vector on XZ, B: gust amount, A: unused.
+  readonly texture: DataTexture;
+  // World XZ of the texture corner and the size it covers.
+  readonly origin = new Vector2();
+  readonly size = new Vector2(WIND_FIELD_EXTENT, WIND_FIELD_EXTENT);
+
+  private params: WindParams = { ...DEFAULT_WIND_PARAMS };
+  private time = 0;
+  private bakedAt = -Infinity;
+  private readonly noise: Noise2D;
+  private readonly direction = new Vector2(1, 0);
+  private readonly scratch = new Vector2();
+
+  constructor(seed = 1) {
+    this.noise = createPerlin2D(seed);
+    const texels = WIND_TEXTURE_SIZE * WIND_TEXTURE_SIZE;
+    this.texture = new DataTexture(
+      new Uint16Array(texels * 4),
+      WIND_TEXTURE_SIZE,
+      WIND_TEXTURE_SIZE,
+      RGBAFormat,
+      HalfFloatType,
+    );
+    this.texture.wrapS = this.texture.wrapT = ClampToEdgeWrapping;
+    this.texture.magFilter = this.texture.minFilter = LinearFilter;
+  }
+
+  setParams(params: WindParams): void {
+    const keys = Object.keys(params) as (keyof WindParams)[];
+    if (keys.every((key) => params[key] === this.params[key])) return;
+    this.params = { ...params };
+    this.bakedAt = -Infinity;
+    const angle = (params.direction * Math.PI) / 180;
+    this.direction.set(Math.cos(angle), Math.sin(angle));
+  }
+
+  getParams(): WindParams {
+    return { ...this.params };
+  }
+
+  // Advances the field and re-bakes the texture around `centerX, centerZ`.
+  update(timeSeconds: number, centerX: number, centerZ: number): void {
+    this.time = timeSeconds;
+    // Snapped to whole texels so the baked field does not swim as the camera
+    // moves.
+    const texel = this.size.x / WIND_TEXTURE_SIZE;
+    const originX = Math.floor((centerX - this.size.x * 0.5) / texel) * texel;
+    const originZ = Math.floor((centerZ - this.size.y * 0.5) / texel) * texel;
+    const moved = originX !== this.origin.x || originZ !== this.origin.y;
+    if (!moved && Math.abs(timeSeconds - this.bakedAt) < BAKE_INTERVAL) return;
+    this.bakedAt = timeSeconds;
+    this.origin.set(originX, originZ);
+
+    const data = this.texture.image.data as Uint16Array;
+    for (let y = 0; y < WIND_TEXTURE_SIZE; y++) {
+      for (let x = 0; x < WIND_TEXTURE_SIZE; x++) {
+        const gust = this.sample(
+          this.origin.x + (x + 0.5) * texel,
+          this.origin.y + (y + 0.5) * texel,
+          this.scratch,
+        );
+        const i = (y * WIND_TEXTURE_SIZE + x) * 4;
+        data[i] = DataUtils.toHalfFloat(this.scratch.x);
+        data[i + 1] = DataUtils.toHalfFloat(this.scratch.y);
+        data[i + 2] = DataUtils.toHalfFloat(gust);
+        data[i + 3] = DataUtils.toHalfFloat(1);
+      }
+    }
+    this.texture.needsUpdate = true;
+  }
+
+  // Wind vector at a world position into `target` (length = strength, gusts
+  // excluded); returns the gust amount there, 0..gustStrength.
+  sample(x: number, z: number, target: Vector2): number {
+    const { strength, turbulence, gustStrength, gustSpeed, gustSpacing } =
+      this.params;
+    const dir = this.direction;
+    const t = this.time;
+
+    // Turbulence is carried along by the wind itself.
+    const drift = t * Math.max(0.5, gustSpeed) * 0.5;
+    const nx = (x - dir.x * drift) * TURBULENCE_SCALE;
+    const nz = (z - dir.y * drift) * TURBULENCE_SCALE;
+    const angle = turbulence * 0.8 * this.noise(nx, nz);
+    const amount =
+      strength * (1 + turbulence * 0.5 * this.noise(nz + 31.7, nx - 12.3));
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    target.set(
+      (dir.x * cos - dir.y * sin) * amount,
+      (dir.x * sin + dir.y * cos) * amount,
+    );
+
+    // Fronts are bands across the wind, broken up along their length.
+    const along = x * dir.x + z * dir.y - t * gustSpeed;
+    const phase = along / Math.max(1, gustSpacing);
+    const front = Math.pow(
+      0.5 + 0.5 * Math.cos(phase * Math.PI * 2),
+      GUST_SHARPNESS,
+    );
+    const across = (-x * dir.y + z * dir.x) * GUST_LATERAL_SCALE;
+    const patchy = 0.5 + 0.5 * this.noise(across, Math.round(phase) * 7.31);
+    return gustStrength * front * Math.min(1, Math.max(0, patchy * 1.4));
+  }
+
+  dispose(): void {
+    this.texture.dispose();
+  }
+}